@@ -1,17 +1,28 @@
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 // Fix: Import ParsedFontData from types.ts
-import type { GeneratedChar, FontGeneratorOptions, ParsedFontData } from './types';
-import { generateFontData, generatePreviewFontData, generateChars } from './services/fontGenerator';
+import type { GeneratedChar, FontGeneratorOptions, ParsedFontData, CustomFont, GlyphRenderOverride, FontFallback, GlyphOrientation } from './types';
+import { getFontBaselineRow } from './services/fontGenerator';
+import { generateFontData, generatePreviewFontData, generateCharsAsync, isAbortError } from './services/fontWorkerClient';
 // Fix: Remove ParsedFontData from this import as it's now in types.ts
 import { parseImportedData } from './services/fontParser';
+import { encodeGlyph, getBytesPerColumn, MAX_CHAR_HEIGHT, DEFAULT_ORIENTATION } from './services/bitmapEncoding';
+import { getFontName, downloadBlob } from './services/exportUtils';
+import { loadCustomFontFile, registerCustomFont } from './services/customFonts';
+import { serializeProject, parseProjectFile, PROJECT_FILE_EXTENSION } from './services/projectFile';
+import { parseUnicodeRanges } from './services/unicodeRanges';
+import { findAutoFitSizeAdjustment } from './services/autoFit';
 import FontPreview from './components/FontPreview';
 import CodeOutput from './components/CodeOutput';
 import CharGrid from './components/CharGrid';
 import CharEditorModal from './components/CharEditorModal';
 import ImportFontModal from './components/ImportFontModal';
 import AddCharModal from './components/AddCharModal';
-import { GithubIcon, SparklesIcon, ChevronDownIcon, UploadIcon, SyncIcon, UndoIcon, RedoIcon } from './components/Icons';
+import ResampleModal from './components/ResampleModal';
+import BatchGenerateModal from './components/BatchGenerateModal';
+import { applyGlyphEffects, type GlyphEffect } from './services/glyphEffects';
+import { DEFAULT_SIZE_PRESETS } from './services/fontFamily';
+import { GithubIcon, SparklesIcon, ChevronDownIcon, UploadIcon, SyncIcon, UndoIcon, RedoIcon, FolderOpenIcon, SaveIcon, ArrowUpIcon, ZoomInIcon } from './components/Icons';
 
 // Custom hook for managing state history (undo/redo)
 const useHistory = <T,>(initialState: T) => {
@@ -48,6 +59,22 @@ const useHistory = <T,>(initialState: T) => {
 };
 
 
+// Largest code point range the "Add Range" helper accepts in one go.
+const MAX_RANGE_SIZE = 0x10000;
+
+// Drops unset fields, and turns an override without any field into no override.
+const normalizeOverride = (override: GlyphRenderOverride | undefined): GlyphRenderOverride | undefined => {
+  const entries = Object.entries(override ?? {}).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) as GlyphRenderOverride : undefined;
+};
+
+// Overrides are the same when they set the same fields to the same values.
+const isSameOverride = (a: GlyphRenderOverride | undefined, b: GlyphRenderOverride | undefined): boolean => {
+  const [normalA, normalB] = [normalizeOverride(a), normalizeOverride(b)];
+  const keys = Object.keys(normalA ?? {}) as (keyof GlyphRenderOverride)[];
+  return keys.length === Object.keys(normalB ?? {}).length && keys.every(key => normalA?.[key] === normalB?.[key]);
+};
+
 const App: React.FC = () => {
   const [options, setOptions] = useState<FontGeneratorOptions>({
     fontFamily: 'VT323',
@@ -59,10 +86,22 @@ const App: React.FC = () => {
     fontSizeAdjustment: 0,
     renderMode: 'aliased',
     renderThreshold: 128,
+    autoThreshold: false,
+    strokeWeight: 0,
+    ditherAlgorithm: 'floyd-steinberg',
     autoAlign: 'bottom',
+    baselineRow: -1,
+    horizontalAlign: 'center',
     xOffset: 0,
     yOffset: 0,
     dynamicWidth: false,
+    bitOrder: 'msb-first',
+    byteLayout: 'column-major',
+    bitDepth: 1,
+    orientation: DEFAULT_ORIENTATION,
+    fallbackFonts: [],
+    glyphOverrides: {},
+    sizePresets: DEFAULT_SIZE_PRESETS,
   });
 
   const { state: fontData, set: setFontData, undo, redo, canUndo, canRedo } = useHistory<GeneratedChar[] | null>(null);
@@ -70,19 +109,26 @@ const App: React.FC = () => {
   const [previewData, setPreviewData] = useState<GeneratedChar[] | null>(null);
   const [previewText, setPreviewText] = useState<string>('Hello\nWorld!');
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [loadingAction, setLoadingAction] = useState<'generate' | 'sync' | null>(null);
+  const [loadingAction, setLoadingAction] = useState<'generate' | 'sync' | 'fit' | 'add' | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isCharSetVisible, setIsCharSetVisible] = useState(true);
   const [isLivePreviewVisible, setIsLivePreviewVisible] = useState(true);
   const [editingChar, setEditingChar] = useState<{ char: GeneratedChar; index: number; isPreview: boolean } | null>(null);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [isAddCharModalOpen, setIsAddCharModalOpen] = useState(false);
+  const [isResampleModalOpen, setIsResampleModalOpen] = useState(false);
+  const [isBatchModalOpen, setIsBatchModalOpen] = useState(false);
+  const [selectedCodePoints, setSelectedCodePoints] = useState<Set<number>>(new Set());
   const [rangeStart, setRangeStart] = useState('');
   const [rangeEnd, setRangeEnd] = useState('');
   const [charSetError, setCharSetError] = useState<string | null>(null);
   const [draggedCharIndex, setDraggedCharIndex] = useState<number | null>(null);
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
+
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
 
   const debounceTimeout = useRef<number | null>(null);
+  const generationAbort = useRef<AbortController | null>(null);
 
   // Sync characterSet with fontData on undo/redo or any other change
   useEffect(() => {
@@ -92,6 +138,13 @@ const App: React.FC = () => {
             setOptions(prev => ({...prev, characterSet: newCharSet}));
         }
     }
+    // Drop selected glyphs that are no longer in the font
+    setSelectedCodePoints(prev => {
+        if (prev.size === 0) return prev;
+        const present = new Set(fontData?.map(d => d.codePoint));
+        const next = new Set([...prev].filter(codePoint => present.has(codePoint)));
+        return next.size === prev.size ? prev : next;
+    });
   }, [fontData]);
 
   // Keyboard shortcuts for undo/redo
@@ -112,7 +165,18 @@ const App: React.FC = () => {
   }, [undo, redo]);
 
 
-  const handleCharUpdate = (charIndex: number, newBitmap: boolean[][], isPreview: boolean) => {
+  const handleCharUpdate = (charIndex: number, newBitmap: boolean[][], newGrayscale: number[][] | undefined, editedOverride: GlyphRenderOverride | undefined, isPreview: boolean) => {
+    const codePoint = (isPreview ? previewData : fontData)?.[charIndex]?.codePoint;
+    const override = normalizeOverride(editedOverride);
+    // Only a real change of the override touches the options, since that regenerates the preview.
+    if (codePoint !== undefined && !isSameOverride(override, options.glyphOverrides[codePoint])) {
+        setOptions(prev => {
+            const glyphOverrides = { ...prev.glyphOverrides };
+            if (override) glyphOverrides[codePoint] = override;
+            else delete glyphOverrides[codePoint];
+            return { ...prev, glyphOverrides };
+        });
+    }
     if (isPreview) {
         setPreviewData(prevData => {
             if (!prevData) return null;
@@ -127,18 +191,8 @@ const App: React.FC = () => {
         if (!fontData) return;
         const newFontData = fontData.map((char, index) => {
             if (index === charIndex) {
-                const newBytes: number[] = [];
-                const totalWidth = newBitmap[0]?.length || 0;
-                for (let c = 0; c < totalWidth; c++) {
-                    let byte = 0;
-                    for (let r = 0; r < options.height; r++) {
-                        if (newBitmap[r]?.[c]) {
-                            byte |= (1 << (options.height - 1 - r));
-                        }
-                    }
-                    newBytes.push(byte);
-                }
-                return { ...char, bitmap: newBitmap, bytes: newBytes };
+                const grayscale = options.bitDepth > 1 ? newGrayscale : undefined;
+                return { ...char, bitmap: newBitmap, grayscale, bytes: encodeGlyph({ bitmap: newBitmap, grayscale }, options.height, options) };
             }
             return char;
         });
@@ -159,16 +213,19 @@ const App: React.FC = () => {
     if (debounceTimeout.current) {
         clearTimeout(debounceTimeout.current);
     }
+    // A newer preview supersedes any render still running in the worker.
+    const previewAbort = new AbortController();
 
     debounceTimeout.current = window.setTimeout(async () => {
-        if (options.width <= 0 || options.height <= 0 || options.height > 8 || !options.characterSet || !previewText) {
+        if (options.width <= 0 || options.height <= 0 || options.height > MAX_CHAR_HEIGHT || !options.characterSet || !previewText) {
             setPreviewData(null);
             return;
         }
         try {
-            const data = await generatePreviewFontData(options, previewText);
+            const data = await generatePreviewFontData(options, previewText, previewAbort.signal);
             setPreviewData(data);
         } catch (e) {
+            if (isAbortError(e)) return;
             console.error('Failed to generate preview:', e);
             setPreviewData(null);
         }
@@ -178,18 +235,42 @@ const App: React.FC = () => {
         if (debounceTimeout.current) {
             clearTimeout(debounceTimeout.current);
         }
+        previewAbort.abort();
     };
   }, [options, previewText]);
 
+  // Starts a cancellable generation run, replacing any run still in progress.
+  const startGenerationRun = () => {
+    generationAbort.current?.abort();
+    const controller = new AbortController();
+    generationAbort.current = controller;
+    setProgress(null);
+    return {
+      signal: controller.signal,
+      onProgress: (done: number, total: number) => setProgress({ done, total }),
+    };
+  };
+
+  const finishGenerationRun = () => {
+    generationAbort.current = null;
+    setProgress(null);
+    setIsLoading(false);
+    setLoadingAction(null);
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbort.current?.abort();
+  };
+
 
   const handleGenerate = useCallback(async () => {
     setIsLoading(true);
     setLoadingAction('generate');
     setError(null);
-    setFontData(null);
+    const run = startGenerationRun();
     try {
-      if (options.height > 8) {
-        throw new Error('Height cannot be greater than 8, as each column is represented by a single byte.');
+      if (options.height > MAX_CHAR_HEIGHT) {
+        throw new Error(`Height cannot be greater than ${MAX_CHAR_HEIGHT}, as each column is represented by at most ${getBytesPerColumn(MAX_CHAR_HEIGHT)} bytes.`);
       }
       if (options.width <= 0 || options.height <= 0) {
         throw new Error('Width and height must be positive numbers.');
@@ -200,17 +281,18 @@ const App: React.FC = () => {
       if (!options.characterSet) {
         throw new Error('Character set cannot be empty.');
       }
-      const data = await generateFontData(options);
+      const data = await generateFontData(options, run);
       setFontData(data);
     } catch (e) {
-      if (e instanceof Error) {
+      if (isAbortError(e)) {
+        // Cancelled by the user; the previous font is kept.
+      } else if (e instanceof Error) {
         setError(e.message);
       } else {
         setError('An unknown error occurred.');
       }
     } finally {
-      setIsLoading(false);
-      setLoadingAction(null);
+      finishGenerationRun();
     }
   }, [options, setFontData]);
 
@@ -218,9 +300,10 @@ const App: React.FC = () => {
     setIsLoading(true);
     setLoadingAction('sync');
     setError(null);
+    const run = startGenerationRun();
 
     try {
-        if (options.height > 8) throw new Error('Height cannot be greater than 8.');
+        if (options.height > MAX_CHAR_HEIGHT) throw new Error(`Height cannot be greater than ${MAX_CHAR_HEIGHT}.`);
         if (options.width <= 0 || options.height <= 0) throw new Error('Width and height must be positive.');
         if (!options.characterSet) throw new Error('Character set cannot be empty.');
 
@@ -233,11 +316,14 @@ const App: React.FC = () => {
         // Fix: The result of Array.from was being inferred as unknown[], causing a type error. Casting to string[] resolves this.
         const charsToAdd = (Array.from(newCharSet) as string[]).filter((char) => !existingCharsInFont.has(char));
         
-        const keptFontData = oldFontData.filter(charData => newCharSet.has(charData.char));
+        // Glyphs with a render override are rendered again, so they follow their override like a full generation.
+        const isOverridden = (charData: GeneratedChar) => options.glyphOverrides[charData.codePoint] !== undefined;
+        const keptFontData = oldFontData.filter(charData => newCharSet.has(charData.char) && !isOverridden(charData));
+        const charsToRender = [...charsToAdd, ...oldFontData.filter(charData => newCharSet.has(charData.char) && isOverridden(charData)).map(charData => charData.char)];
         
         let newCharsData: GeneratedChar[] = [];
-        if (charsToAdd.length > 0) {
-            newCharsData = await generateChars(options, charsToAdd);
+        if (charsToRender.length > 0) {
+            newCharsData = await generateCharsAsync(options, charsToRender, run);
         }
         
         const finalFontData = [...keptFontData, ...newCharsData].sort((a, b) => a.codePoint - b.codePoint);
@@ -245,17 +331,42 @@ const App: React.FC = () => {
         setFontData(finalFontData);
 
     } catch (e) {
-        if (e instanceof Error) {
+        if (isAbortError(e)) {
+            // Cancelled by the user; the font is left unchanged.
+        } else if (e instanceof Error) {
             setError(e.message);
         } else {
             setError('An unknown error occurred during sync.');
         }
     } finally {
-        setIsLoading(false);
-        setLoadingAction(null);
+        finishGenerationRun();
     }
   }, [options, fontData, setFontData]);
 
+  const handleAutoFit = useCallback(async () => {
+    setIsLoading(true);
+    setLoadingAction('fit');
+    setError(null);
+    const run = startGenerationRun();
+    try {
+      if (options.width <= 0 || options.height <= 0 || options.height > MAX_CHAR_HEIGHT) {
+        throw new Error(`Width and height must be positive, and the height at most ${MAX_CHAR_HEIGHT}.`);
+      }
+      const fontSizeAdjustment = await findAutoFitSizeAdjustment(options, run);
+      setOptions(prev => ({ ...prev, fontSizeAdjustment }));
+    } catch (e) {
+      if (isAbortError(e)) {
+        // Cancelled by the user; the size is left unchanged.
+      } else if (e instanceof Error) {
+        setError(e.message);
+      } else {
+        setError('An unknown error occurred while fitting the font size.');
+      }
+    } finally {
+      finishGenerationRun();
+    }
+  }, [options]);
+
   const handleOptionChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
      if (type === 'checkbox') {
@@ -267,7 +378,7 @@ const App: React.FC = () => {
         uniqueChars.sort((a: string, b: string) => (a.codePointAt(0) ?? 0) - (b.codePointAt(0) ?? 0));
         setOptions(prev => ({ ...prev, [name]: uniqueChars.join('') }));
     } else {
-        const isNumeric = ['width', 'height', 'fontSizeAdjustment', 'renderThreshold', 'charSpacing', 'xOffset', 'yOffset'].includes(name);
+        const isNumeric = ['width', 'height', 'fontSizeAdjustment', 'renderThreshold', 'charSpacing', 'xOffset', 'yOffset', 'bitDepth', 'baselineRow', 'strokeWeight'].includes(name);
         const parsedValue = isNumeric ? parseInt(value, 10) : value;
         setOptions(prev => ({ ...prev, [name]: parsedValue }));
     }
@@ -280,6 +391,81 @@ const App: React.FC = () => {
     setIsImportModalOpen(false);
   };
 
+  const handleResample = (data: ParsedFontData) => {
+    setError(null);
+    setFontData(data.fontData);
+    setOptions(prev => ({...prev, ...data.fontOptions}));
+    setIsResampleModalOpen(false);
+  };
+
+  const handleOpenBatchSize = (data: ParsedFontData) => {
+    setError(null);
+    setFontData(data.fontData);
+    setOptions(prev => ({...prev, ...data.fontOptions}));
+    setIsBatchModalOpen(false);
+  };
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+    try {
+      const font = await loadCustomFontFile(file, commonFonts);
+      setCustomFonts(prev => [...prev.filter(f => f.family !== font.family), font]);
+      setOptions(prev => ({ ...prev, fontFamily: font.family }));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load the font file.');
+    }
+  };
+
+  const handleSaveProject = () => {
+    const project = serializeProject(options, fontData, customFonts);
+    downloadBlob(new Blob([project], { type: 'application/json' }), `${getFontName(options)}.${PROJECT_FILE_EXTENSION}`);
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const project = parseProjectFile(await file.text());
+      // Fonts must be registered before the options switch to them, or the preview renders with a fallback font.
+      await Promise.all(project.customFonts.map(registerCustomFont));
+      setCustomFonts(project.customFonts);
+      setOptions(prev => ({ ...prev, ...project.options }));
+      setFontData(project.fontData);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to open the project file.');
+    }
+  };
+
+  const handleAddFallbackFont = () => {
+    setOptions(prev => ({ ...prev, fallbackFonts: [...prev.fallbackFonts, { fontFamily: 'Roboto Mono', unicodeRange: '' }] }));
+  };
+
+  const handleFallbackFontChange = (index: number, changes: Partial<FontFallback>) => {
+    setOptions(prev => ({
+      ...prev,
+      fallbackFonts: prev.fallbackFonts.map((fallback, i) => i === index ? { ...fallback, ...changes } : fallback),
+    }));
+  };
+
+  const handleFallbackFontRemove = (index: number) => {
+    setOptions(prev => ({ ...prev, fallbackFonts: prev.fallbackFonts.filter((_, i) => i !== index) }));
+  };
+
+  // Fallbacks are tried in list order, so moving one up gives it priority.
+  const handleFallbackFontMoveUp = (index: number) => {
+    if (index === 0) return;
+    setOptions(prev => {
+      const fallbackFonts = [...prev.fallbackFonts];
+      [fallbackFonts[index - 1], fallbackFonts[index]] = [fallbackFonts[index], fallbackFonts[index - 1]];
+      return { ...prev, fallbackFonts };
+    });
+  };
+
   const handleSetLatinBasic = () => {
     const chars: string[] = [];
     
@@ -399,17 +585,19 @@ const App: React.FC = () => {
         setCharSetError('The "Start" code cannot be greater than the "End" code.');
         return;
     }
-    if (end - start > 1000) {
-        setCharSetError('Range is too large. Please keep it under 1000 characters for performance reasons.');
-        return;
-    }
     if (start < 0 || end > 0x10FFFF) {
         setCharSetError('Hex codes must be within the valid Unicode range (0-10FFFF).');
         return;
     }
+    if (end - start + 1 > MAX_RANGE_SIZE) {
+        setCharSetError(`Range is too large. Please add at most ${MAX_RANGE_SIZE} characters (one Unicode plane) at a time.`);
+        return;
+    }
 
     const charsToAdd: string[] = [];
     for (let i = start; i <= end; i++) {
+        // Surrogate code points are not characters; adjacent ones would also merge into a pair in the string.
+        if (i >= 0xD800 && i <= 0xDFFF) continue;
         charsToAdd.push(String.fromCodePoint(i));
     }
     
@@ -439,26 +627,50 @@ const App: React.FC = () => {
           return;
       }
 
+      // Close the dialog first so the progress and Cancel button are visible while the glyph renders.
+      setIsAddCharModalOpen(false);
       (async () => {
+        setIsLoading(true);
+        setLoadingAction('add');
+        setError(null);
+        const run = startGenerationRun();
         try {
-            const [newCharData] = await generateChars(options, [newCharStr]);
+            const [newCharData] = await generateCharsAsync(options, [newCharStr], run);
             
             const newFontData = [...(fontData || []), newCharData]
                 .sort((a, b) => a.codePoint - b.codePoint);
             
             setFontData(newFontData);
-            setIsAddCharModalOpen(false);
 
         } catch (e) {
-            if (e instanceof Error) {
+            if (isAbortError(e)) {
+                // Cancelled by the user; the character is not added.
+            } else if (e instanceof Error) {
                 setError(e.message);
             } else {
                 setError('An unknown error occurred while adding the character.');
             }
+        } finally {
+            finishGenerationRun();
         }
       })();
   };
 
+  const handleCharSelect = (codePoint: number) => {
+    setSelectedCodePoints(prev => {
+      const next = new Set(prev);
+      if (next.has(codePoint)) next.delete(codePoint);
+      else next.add(codePoint);
+      return next;
+    });
+  };
+
+  // Effects are one history step, so a single undo reverts them for the whole selection.
+  const handleApplyEffect = (effect: GlyphEffect) => {
+    if (!fontData) return;
+    setFontData(applyGlyphEffects(fontData, effect, options, selectedCodePoints));
+  };
+
   const handleCharCopy = (sourceIndex: number, destinationIndex: number) => {
     if (sourceIndex === destinationIndex || !fontData) return;
 
@@ -472,6 +684,7 @@ const App: React.FC = () => {
       // Deep copy the bitmap to prevent reference sharing
       bitmap: sourceChar.bitmap.map(row => [...row]),
       bytes: [...sourceChar.bytes],
+      grayscale: sourceChar.grayscale?.map(row => [...row]),
     };
 
     setFontData(newFontData);
@@ -489,6 +702,17 @@ const App: React.FC = () => {
   ];
   
   const pixelFonts = ['Press Start 2P', 'Silkscreen', 'VT323'];
+  const getRangeError = (unicodeRange: string) => {
+    try {
+      parseUnicodeRanges(unicodeRange);
+      return null;
+    } catch (e) {
+      return e instanceof Error ? e.message : 'Invalid Unicode range.';
+    }
+  };
+  const autoBaselineRow = options.autoAlign === 'baseline' && options.height > 0 ? getFontBaselineRow(options) : 0;
+  const progressLabel = progress ? ` ${Math.round(progress.done / progress.total * 100)}%` : '';
+  const bytesPerColumn = getBytesPerColumn(options.height || 1);
 
   const previewElements: React.ReactNode[][] = [];
   if (previewData) {
@@ -521,10 +745,12 @@ const App: React.FC = () => {
         <CharEditorModal 
             charData={editingChar.char}
             height={options.height}
-            onSave={(newBitmap) => handleCharUpdate(editingChar.index, newBitmap, editingChar.isPreview)}
+            onSave={(newBitmap, newGrayscale, override) => handleCharUpdate(editingChar.index, newBitmap, newGrayscale, override, editingChar.isPreview)}
             onClose={() => setEditingChar(null)}
             isDynamicWidth={options.dynamicWidth}
+            bitDepth={options.bitDepth}
             fullFontData={(editingChar.isPreview ? previewData : fontData) || []}
+            options={options}
         />
       )}
       {isImportModalOpen && (
@@ -540,6 +766,23 @@ const App: React.FC = () => {
               existingChars={options.characterSet}
           />
       )}
+      {isBatchModalOpen && (
+          <BatchGenerateModal
+              onClose={() => setIsBatchModalOpen(false)}
+              onPresetsChange={(sizePresets) => setOptions(prev => ({ ...prev, sizePresets }))}
+              onOpen={handleOpenBatchSize}
+              options={options}
+              previewText={previewText}
+          />
+      )}
+      {isResampleModalOpen && fontData && (
+          <ResampleModal
+              onClose={() => setIsResampleModalOpen(false)}
+              onApply={handleResample}
+              fontData={fontData}
+              options={options}
+          />
+      )}
       <div className="min-h-screen bg-gray-900 text-gray-100 font-sans p-4 sm:p-6 md:p-8">
         <div className="max-w-7xl mx-auto">
           <header className="text-center mb-8">
@@ -554,6 +797,13 @@ const App: React.FC = () => {
               <h2 className="text-2xl font-semibold mb-6 text-cyan-300 flex items-center justify-between gap-4">
                 <span className="flex items-center gap-2"><SparklesIcon/>Controls</span>
                 <div className="flex items-center gap-2">
+                    <label className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-bold transition-all cursor-pointer" title="Open Project">
+                        <FolderOpenIcon />
+                        <input type="file" accept={`.${PROJECT_FILE_EXTENSION},application/json`} className="hidden" onChange={handleOpenProject} />
+                    </label>
+                    <button onClick={handleSaveProject} className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-bold transition-all" title="Save Project (settings, edited characters and uploaded fonts)">
+                        <SaveIcon />
+                    </button>
                     <button onClick={undo} disabled={!canUndo} className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed" title="Undo (Ctrl+Z)">
                         <UndoIcon />
                     </button>
@@ -577,10 +827,65 @@ const App: React.FC = () => {
                         className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition"
                       >
                         {commonFonts.map(font => <option key={font} value={font}>{font}</option>)}
+                        {customFonts.length > 0 && (
+                          <optgroup label="Uploaded Fonts">
+                            {customFonts.map(font => <option key={font.family} value={font.family}>{font.family}</option>)}
+                          </optgroup>
+                        )}
                       </select>
+                      <div className="flex items-center gap-2 mt-2">
+                        <label className="text-xs bg-gray-600 hover:bg-gray-500 text-white font-semibold py-1 px-2 rounded-md transition-colors cursor-pointer">
+                          Upload Font File
+                          <input type="file" accept=".ttf,.otf,.woff,.woff2" className="hidden" onChange={handleFontUpload} />
+                        </label>
+                        <span className="text-xs text-gray-500">TTF, OTF or WOFF. Saved with the project.</span>
+                      </div>
                       <p className="text-xs text-gray-500 mt-1">Pixel and Monospace fonts are recommended for best results.</p>
                     </div>
 
+                    <div className="flex flex-col">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-medium text-gray-300">Fallback Fonts</span>
+                        <button onClick={handleAddFallbackFont} className="text-xs bg-gray-600 hover:bg-gray-500 text-white font-semibold py-1 px-2 rounded-md transition-colors">
+                          Add Fallback
+                        </button>
+                      </div>
+                      {options.fallbackFonts.map((fallback, index) => {
+                        const rangeError = getRangeError(fallback.unicodeRange);
+                        return (
+                          <div key={index} className="mb-2">
+                            <div className="flex items-center gap-2">
+                              <select
+                                value={fallback.fontFamily}
+                                onChange={(e) => handleFallbackFontChange(index, { fontFamily: e.target.value })}
+                                className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition"
+                                aria-label={`Fallback font ${index + 1}`}
+                              >
+                                {commonFonts.map(font => <option key={font} value={font}>{font}</option>)}
+                                {customFonts.map(font => <option key={font.family} value={font.family}>{font.family}</option>)}
+                              </select>
+                              <input
+                                type="text"
+                                value={fallback.unicodeRange}
+                                onChange={(e) => handleFallbackFontChange(index, { unicodeRange: e.target.value })}
+                                placeholder="All (e.g. U+0400-04FF)"
+                                className={`flex-1 min-w-0 bg-gray-700 border rounded-md px-2 py-1 text-sm font-mono text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition ${rangeError ? 'border-red-500' : 'border-gray-600'}`}
+                                aria-label={`Unicode ranges for fallback font ${index + 1}`}
+                              />
+                              <button onClick={() => handleFallbackFontMoveUp(index)} disabled={index === 0} className="text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors" aria-label="Move fallback up">
+                                <ArrowUpIcon />
+                              </button>
+                              <button onClick={() => handleFallbackFontRemove(index)} className="text-gray-400 hover:text-red-400 text-xl font-bold leading-none transition-colors" aria-label="Remove fallback">
+                                &times;
+                              </button>
+                            </div>
+                            {rangeError && <p className="text-xs text-red-400 mt-1">{rangeError} This fallback is skipped until it is fixed.</p>}
+                          </div>
+                        );
+                      })}
+                      <p className="text-xs text-gray-500">Used in order for characters the main font lacks, limited to their Unicode ranges. Characters no font covers are flagged as missing in the preview.</p>
+                    </div>
+
                     <div className="flex flex-col">
                       <label htmlFor="fontWeight" className="mb-2 font-medium text-gray-300">Font Weight</label>
                       <select 
@@ -605,14 +910,22 @@ const App: React.FC = () => {
                             name="fontSizeAdjustment"
                             value={options.fontSizeAdjustment} 
                             onChange={handleOptionChange}
-                            min="-5"
-                            max="5"
+                            min={Math.min(-5, options.fontSizeAdjustment)}
+                            max={Math.max(5, options.fontSizeAdjustment)}
                             step="1"
                             className="w-full appearance-none cursor-pointer"
                         />
                         <span className="bg-gray-700 text-xs font-mono rounded-md px-2 py-1 w-12 text-center">{options.fontSizeAdjustment}</span>
+                        <button
+                          onClick={handleAutoFit}
+                          disabled={isLoading}
+                          className="text-xs bg-gray-600 hover:bg-gray-500 text-white font-semibold py-1 px-2 rounded-md transition-colors whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="Find the largest size at which no character of the set is clipped"
+                        >
+                          {loadingAction === 'fit' ? `Fitting...${progressLabel}` : 'Auto-Fit'}
+                        </button>
                       </div>
-                      <p className="text-xs text-gray-500 mt-1">Fine-tunes character size within the grid. Negative is smaller.</p>
+                      <p className="text-xs text-gray-500 mt-1">Fine-tunes character size within the grid. Negative is smaller. Clipped characters are marked in the preview.</p>
                     </div>
 
                     <div className="flex flex-col space-y-2 pt-2 border-t border-gray-700/50">
@@ -625,13 +938,59 @@ const App: React.FC = () => {
                              <label className="flex items-center gap-3 cursor-pointer">
                                 <input type="radio" name="autoAlign" value="bottom" checked={options.autoAlign === 'bottom'} onChange={handleOptionChange} className="w-4 h-4" />
                                 <span>Align Bottom</span>
+                            </label>
+                             <label className="flex items-center gap-3 cursor-pointer">
+                                <input type="radio" name="autoAlign" value="baseline" checked={options.autoAlign === 'baseline'} onChange={handleOptionChange} className="w-4 h-4" />
+                                <span>Baseline (Font Metrics)</span>
                             </label>
                              <label className="flex items-center gap-3 cursor-pointer">
                                 <input type="radio" name="autoAlign" value="manual" checked={options.autoAlign === 'manual'} onChange={handleOptionChange} className="w-4 h-4" />
                                 <span>Manual</span>
                             </label>
                         </div>
-                         <p className="text-xs text-gray-500">Automatically aligns characters. Manual mode enables X/Y offsets.</p>
+                        {options.autoAlign === 'baseline' && (
+                          <div className="flex items-center gap-3 pl-7">
+                            <label htmlFor="baselineRow" className="text-sm text-gray-300">Baseline Row</label>
+                            <input
+                              type="number"
+                              id="baselineRow"
+                              name="baselineRow"
+                              value={options.baselineRow < 0 ? autoBaselineRow : options.baselineRow}
+                              onChange={handleOptionChange}
+                              min="0"
+                              max={options.height - 1}
+                              disabled={options.baselineRow < 0}
+                              className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white text-sm w-16 focus:ring-2 focus:ring-cyan-400 focus:outline-none disabled:opacity-50"
+                            />
+                            <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-300">
+                              <input
+                                type="checkbox"
+                                checked={options.baselineRow < 0}
+                                onChange={e => setOptions(prev => ({ ...prev, baselineRow: e.target.checked ? -1 : autoBaselineRow }))}
+                              />
+                              Auto
+                            </label>
+                          </div>
+                        )}
+                         <p className="text-xs text-gray-500">Automatically aligns characters. Baseline keeps descenders (g, p, y) below a shared line; rows count from 0 at the top. Manual mode enables X/Y offsets.</p>
+                    </div>
+
+                    <div className="flex flex-col">
+                      <label htmlFor="horizontalAlign" className="mb-2 font-medium text-gray-300">Horizontal Alignment</label>
+                      <select
+                        id="horizontalAlign"
+                        name="horizontalAlign"
+                        value={options.horizontalAlign}
+                        onChange={handleOptionChange}
+                        disabled={options.dynamicWidth}
+                        className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition disabled:opacity-50"
+                      >
+                        <option value="center">Center (Font Advance)</option>
+                        <option value="ink-center">Center of Ink</option>
+                        <option value="left">Left</option>
+                        <option value="right">Right</option>
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">Places the drawn pixels of fixed-width glyphs. 'Center of Ink' keeps narrow glyphs like 'i' and 'l' visually centred; 'Left' suits tabular digits.</p>
                     </div>
 
                     <div className={`flex flex-col space-y-4 transition-opacity ${options.autoAlign !== 'manual' ? 'opacity-50' : ''}`}>
@@ -719,10 +1078,14 @@ const App: React.FC = () => {
                         value={options.height} 
                         onChange={handleOptionChange}
                         min="1" 
-                        max="8"
+                        max={MAX_CHAR_HEIGHT}
                         className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition"
                       />
-                      <p className="text-xs text-gray-500 mt-1">Max 8 for 1 byte/col output format.</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Max {MAX_CHAR_HEIGHT}.
+                        {options.bitDepth === 1 && options.byteLayout === 'column-major' && ` Each column is stored as ${bytesPerColumn} byte${bytesPerColumn > 1 ? 's' : ''}.`}
+                        {options.bitDepth === 1 && options.byteLayout === 'page' && ` Each glyph spans ${bytesPerColumn} page${bytesPerColumn > 1 ? 's' : ''}.`}
+                      </p>
                     </div>
 
                     <div className="flex flex-col">
@@ -746,6 +1109,82 @@ const App: React.FC = () => {
                         }
                       </p>
                     </div>
+
+                    <div className="flex flex-col pt-4 border-t border-gray-700/50">
+                      <label htmlFor="byteLayout" className="mb-2 font-medium text-gray-300">Byte Layout</label>
+                      <select 
+                        id="byteLayout" 
+                        name="byteLayout"
+                        value={options.byteLayout} 
+                        onChange={handleOptionChange}
+                        disabled={options.bitDepth > 1}
+                        className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <option value="column-major">Column-Major (Vertical Bytes)</option>
+                        <option value="row-major">Row-Major (Horizontal Bytes)</option>
+                        <option value="page">Page (SSD1306/SH1106)</option>
+                      </select>
+                      {options.bitDepth > 1 && (
+                          <p className="text-xs text-gray-500 mt-1">Grayscale data is always packed row by row.</p>
+                      )}
+                    </div>
+
+                    <div className="flex flex-col">
+                      <label htmlFor="bitOrder" className="mb-2 font-medium text-gray-300">Bit Order</label>
+                      <select 
+                        id="bitOrder" 
+                        name="bitOrder"
+                        value={options.bitOrder} 
+                        onChange={handleOptionChange}
+                        className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition"
+                      >
+                        <option value="msb-first">MSB First</option>
+                        <option value="lsb-first">LSB First</option>
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {options.byteLayout === 'row-major' || options.bitDepth > 1
+                          ? 'Which bits of each byte hold the leftmost pixel.'
+                          : 'Which bit of each byte holds the top row.'
+                        }
+                      </p>
+                      {options.byteLayout === 'page' && options.bitOrder !== 'lsb-first' && (
+                          <p className="text-xs text-amber-400 mt-1">SSD1306/SH1106 controllers expect 'LSB First' in page mode.</p>
+                      )}
+                    </div>
+
+                    <div className="flex flex-col">
+                      <label htmlFor="rotation" className="mb-2 font-medium text-gray-300">Display Orientation</label>
+                      <select
+                        id="rotation"
+                        value={options.orientation.rotation}
+                        onChange={e => setOptions(prev => ({ ...prev, orientation: { ...prev.orientation, rotation: parseInt(e.target.value, 10) as GlyphOrientation['rotation'] } }))}
+                        className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition"
+                      >
+                        <option value={0}>Upright (0°)</option>
+                        <option value={90}>Rotated 90° Clockwise</option>
+                        <option value={180}>Rotated 180°</option>
+                        <option value={270}>Rotated 270° Clockwise</option>
+                      </select>
+                      <div className="flex items-center gap-4 mt-2">
+                        <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={options.orientation.mirrorX}
+                            onChange={e => setOptions(prev => ({ ...prev, orientation: { ...prev.orientation, mirrorX: e.target.checked } }))}
+                          />
+                          Mirror X
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={options.orientation.mirrorY}
+                            onChange={e => setOptions(prev => ({ ...prev, orientation: { ...prev.orientation, mirrorY: e.target.checked } }))}
+                          />
+                          Mirror Y
+                        </label>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">Transforms the exported bytes for modules mounted rotated or mirrored (e.g. MAX7219). The preview stays upright.</p>
+                    </div>
                   </fieldset>
 
                   <fieldset className="border border-gray-600 rounded-xl p-4 flex flex-col space-y-4">
@@ -769,6 +1208,27 @@ const App: React.FC = () => {
                       )}
                     </div>
 
+                    {options.renderMode === 'dithered' && (
+                      <div className="flex flex-col">
+                        <label htmlFor="ditherAlgorithm" className="mb-2 font-medium text-gray-300">Dithering Algorithm</label>
+                        <select
+                          id="ditherAlgorithm"
+                          name="ditherAlgorithm"
+                          value={options.ditherAlgorithm}
+                          onChange={handleOptionChange}
+                          className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition"
+                        >
+                          <option value="floyd-steinberg">Floyd-Steinberg</option>
+                          <option value="atkinson">Atkinson</option>
+                          <option value="sierra-lite">Sierra Lite</option>
+                          <option value="bayer-2x2">Ordered (Bayer 2x2)</option>
+                          <option value="bayer-4x4">Ordered (Bayer 4x4)</option>
+                          <option value="none">None</option>
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">Atkinson and the ordered patterns stay cleaner than Floyd-Steinberg on very small glyphs.</p>
+                      </div>
+                    )}
+
                     <div className="flex flex-col">
                       <label htmlFor="renderThreshold" className="mb-2 font-medium text-gray-300">Render Threshold</label>
                       <div className="flex items-center gap-2">
@@ -781,12 +1241,61 @@ const App: React.FC = () => {
                             min="0"
                             max="255"
                             step="1"
-                            disabled={options.renderMode === 'aliased'}
+                            disabled={options.renderMode === 'aliased' || options.autoThreshold}
                             className="w-full appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
                         />
-                        <span className="bg-gray-700 text-xs font-mono rounded-md px-2 py-1 w-12 text-center">{options.renderThreshold}</span>
+                        <span className="bg-gray-700 text-xs font-mono rounded-md px-2 py-1 w-12 text-center">{options.autoThreshold && options.renderMode !== 'aliased' ? 'Auto' : options.renderThreshold}</span>
+                      </div>
+                      <label className={`flex items-center gap-2 text-sm mt-2 ${options.renderMode === 'aliased' ? 'text-gray-500 cursor-not-allowed' : 'text-gray-300 cursor-pointer'}`}>
+                        <input
+                          type="checkbox"
+                          name="autoThreshold"
+                          checked={options.autoThreshold && options.renderMode !== 'aliased'}
+                          onChange={handleOptionChange}
+                          disabled={options.renderMode === 'aliased'}
+                        />
+                        Auto Threshold (Otsu, per character)
+                        {options.renderMode === 'aliased' && <span>(not used in Aliased mode)</span>}
+                      </label>
+                      <p className="text-xs text-gray-500 mt-1">Brightness cutoff for quality modes. Lower values = more pixels. Auto picks a cutoff for each character from its own pixel coverage.</p>
+                    </div>
+
+                    <div className="flex flex-col">
+                      <label htmlFor="strokeWeight" className="mb-2 font-medium text-gray-300">Stroke Weight</label>
+                      <div className="flex items-center gap-2">
+                        <input
+                            type="range"
+                            id="strokeWeight"
+                            name="strokeWeight"
+                            value={options.strokeWeight}
+                            onChange={handleOptionChange}
+                            min="-2"
+                            max="2"
+                            step="1"
+                            className="w-full appearance-none cursor-pointer"
+                        />
+                        <span className="bg-gray-700 text-xs font-mono rounded-md px-2 py-1 w-12 text-center">{options.strokeWeight > 0 ? `+${options.strokeWeight}` : options.strokeWeight}</span>
                       </div>
-                      <p className="text-xs text-gray-500 mt-1">Brightness cutoff for quality modes. Lower values = more pixels.</p>
+                      <p className="text-xs text-gray-500 mt-1">Thickens (positive) or thins (negative) strokes by whole pixels after rendering. Helps thin fonts keep their strokes at small sizes.</p>
+                    </div>
+
+                    <div className="flex flex-col">
+                      <label htmlFor="bitDepth" className="mb-2 font-medium text-gray-300">Bit Depth</label>
+                      <select 
+                        id="bitDepth" 
+                        name="bitDepth"
+                        value={options.bitDepth} 
+                        onChange={handleOptionChange}
+                        className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition"
+                      >
+                        <option value={1}>1-bit (Monochrome)</option>
+                        <option value={2}>2-bit (4 Levels)</option>
+                        <option value={4}>4-bit (16 Levels)</option>
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">Grayscale depths keep the anti-aliased intensity and pack pixels row by row, for displays like the SSD1322/SSD1327.</p>
+                      {options.bitDepth > 1 && options.renderMode === 'aliased' && (
+                          <p className="text-xs text-amber-400 mt-1">'Aliased' mode only produces full-intensity pixels. Use a quality mode for grayscale.</p>
+                      )}
                     </div>
                   </fieldset>
                 </div>
@@ -895,7 +1404,25 @@ const App: React.FC = () => {
                     title="Add/remove characters to match the set, preserving manual edits. Only available after initial generation."
                   >
                     <SyncIcon />
-                    {loadingAction === 'sync' ? 'Syncing...' : 'Sync Set'}
+                    {loadingAction === 'sync' ? `Syncing...${progressLabel}` : 'Sync Set'}
+                  </button>
+                  <button
+                    onClick={() => setIsResampleModalOpen(true)}
+                    disabled={isLoading || !fontData}
+                    className="w-full sm:w-auto justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-6 rounded-lg shadow-md transition-all duration-300 ease-in-out flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Scale the current glyphs, including manual edits, to a new size."
+                  >
+                    <ZoomInIcon />
+                    Resample
+                  </button>
+                  <button
+                    onClick={() => setIsBatchModalOpen(true)}
+                    disabled={isLoading}
+                    className="w-full sm:w-auto justify-center bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-6 rounded-lg shadow-md transition-all duration-300 ease-in-out flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Generate the font at several sizes, compare them and export them together."
+                  >
+                    <SparklesIcon />
+                    Batch Sizes
                   </button>
                   <button 
                     onClick={handleGenerate} 
@@ -903,8 +1430,16 @@ const App: React.FC = () => {
                     className="w-full sm:w-auto justify-center bg-gradient-to-r from-purple-500 to-cyan-500 hover:from-purple-600 hover:to-cyan-600 text-white font-bold py-3 px-6 rounded-lg shadow-md transition-all duration-300 ease-in-out transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
                     title="Regenerate all characters from scratch, overwriting any manual edits."
                   >
-                    {loadingAction === 'generate' ? 'Generating...' : 'Generate & Overwrite'}
+                    {loadingAction === 'generate' ? `Generating...${progressLabel}` : 'Generate & Overwrite'}
                   </button>
+                  {isLoading && (
+                    <button
+                      onClick={handleCancelGeneration}
+                      className="w-full sm:w-auto justify-center bg-red-800 hover:bg-red-700 text-white font-bold py-3 px-6 rounded-lg shadow-md transition-all duration-300 ease-in-out"
+                    >
+                      Cancel
+                    </button>
+                  )}
               </div>
             </div>
 
@@ -914,7 +1449,7 @@ const App: React.FC = () => {
               <div className="text-center p-8">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400 mx-auto"></div>
                 <p className="mt-4 text-gray-400">
-                  {loadingAction === 'sync' ? 'Syncing character set...' : 'Rendering characters on canvas...'}
+                  {loadingAction === 'sync' ? 'Syncing character set...' : loadingAction === 'fit' ? 'Searching for the largest size that fits...' : 'Rendering characters on canvas...'}
                 </p>
               </div>
             }
@@ -930,6 +1465,11 @@ const App: React.FC = () => {
                   draggedCharIndex={draggedCharIndex}
                   setDraggedCharIndex={setDraggedCharIndex}
                   onCharCopy={handleCharCopy}
+                  exportName={getFontName(options)}
+                  selectedCodePoints={selectedCodePoints}
+                  onCharSelect={handleCharSelect}
+                  onClearSelection={() => setSelectedCodePoints(new Set())}
+                  onApplyEffect={handleApplyEffect}
                 />
                 <CodeOutput fontData={fontData} options={options} />
               </div>
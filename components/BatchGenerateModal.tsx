@@ -0,0 +1,279 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { FontGeneratorOptions, GeneratedChar, ParsedFontData, SizePreset } from '../types';
+import { generateFontFamily, generateFamilyHeader, getFamilyFontNames, FAMILY_HEADER_FORMATS, type FamilyMember } from '../services/fontFamily';
+import { generateFontCode, FILE_EXTENSIONS, PSF_VERSIONS, type OutputFormat } from '../services/fontExport';
+import { generatePsfFont } from '../services/psfFont';
+import { isAbortError } from '../services/fontWorkerClient';
+import { getFamilyName, downloadBlob } from '../services/exportUtils';
+import { CloseIcon, DownloadIcon, PlusIcon } from './Icons';
+
+interface BatchGenerateModalProps {
+  onClose: () => void;
+  onPresetsChange: (presets: SizePreset[]) => void;
+  onOpen: (data: ParsedFontData) => void;
+  options: FontGeneratorOptions;
+  previewText: string;
+}
+
+const FORMAT_LABELS: Record<OutputFormat, string> = {
+  c: 'C Array',
+  python: 'Python List',
+  hex: 'Plain Hex',
+  gfx: 'Adafruit GFX Font',
+  bdf: 'BDF Font',
+  psf2: 'Linux Console Font (PSF2)',
+  psf1: 'Linux Console Font (PSF1)',
+};
+
+// Characters of the preview text shown for each size.
+const MAX_SAMPLE_CHARS = 16;
+const SAMPLE_PIXEL_PX = 3;
+
+// Compact glyph rendering without the labels and padding of CharGrid, so several sizes fit side by side.
+const SampleGlyph: React.FC<{ charData: GeneratedChar; height: number }> = ({ charData, height }) => {
+  const width = charData.bitmap[0]?.length || 0;
+  return (
+    <div
+      className="grid bg-gray-800"
+      style={{ gridTemplateColumns: `repeat(${width}, ${SAMPLE_PIXEL_PX}px)`, gridAutoRows: `${SAMPLE_PIXEL_PX}px`, height: height * SAMPLE_PIXEL_PX }}
+      title={charData.char}
+    >
+      {charData.bitmap.flatMap((row, y) => row.map((pixel, x) => (
+        <div key={`${x}-${y}`} className={pixel ? 'bg-cyan-300' : ''} />
+      )))}
+    </div>
+  );
+};
+
+const BatchGenerateModal: React.FC<BatchGenerateModalProps> = ({ onClose, onPresetsChange, onOpen, options, previewText }) => {
+  const presets = options.sizePresets;
+  const [members, setMembers] = useState<FamilyMember[] | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<OutputFormat>('c');
+  const generationAbort = useRef<AbortController | null>(null);
+
+  // Stop a running batch when the dialog closes.
+  useEffect(() => () => generationAbort.current?.abort(), []);
+
+  const sampleChars = [...new Set(Array.from(previewText.replace(/\n/g, '')))].slice(0, MAX_SAMPLE_CHARS);
+  const canExportHeader = FAMILY_HEADER_FORMATS.includes(exportFormat);
+
+  const handlePresetChange = (index: number, field: keyof SizePreset, value: string) => {
+    onPresetsChange(presets.map((preset, i) => i === index ? { ...preset, [field]: parseInt(value, 10) || 0 } : preset));
+  };
+
+  const handleAddPreset = () => {
+    onPresetsChange([...presets, { width: options.width, height: options.height, fontSizeAdjustment: options.fontSizeAdjustment }]);
+  };
+
+  const handleRemovePreset = (index: number) => {
+    onPresetsChange(presets.filter((_, i) => i !== index));
+  };
+
+  const handleGenerate = async () => {
+    generationAbort.current?.abort();
+    const controller = new AbortController();
+    generationAbort.current = controller;
+    setIsGenerating(true);
+    setError(null);
+    setProgress(null);
+    try {
+      const result = await generateFontFamily(options, presets, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setMembers(result);
+    } catch (e) {
+      if (isAbortError(e)) {
+        // Cancelled; the previous results are kept.
+      } else {
+        setError(e instanceof Error ? e.message : 'An unknown error occurred.');
+      }
+    } finally {
+      if (generationAbort.current === controller) {
+        generationAbort.current = null;
+        setIsGenerating(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleExportHeader = () => {
+    if (!members) return;
+    try {
+      const code = generateFamilyHeader(members, exportFormat);
+      downloadBlob(new Blob([code], { type: 'text/plain' }), `${getFamilyName(options)}_family.${FILE_EXTENSIONS[exportFormat]}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to export the family header.');
+    }
+  };
+
+  // Each size has its own download button: browsers block or prompt on several automatic downloads in a row.
+  const handleExportMember = (index: number) => {
+    if (!members) return;
+    const member = members[index];
+    const name = getFamilyFontNames(members)[index];
+    const psfVersion = PSF_VERSIONS[exportFormat];
+    try {
+      const blob = psfVersion
+        ? new Blob([generatePsfFont(member.fontData, member.options, psfVersion)], { type: 'application/octet-stream' })
+        : new Blob([generateFontCode(member.fontData, member.options, exportFormat, name)], { type: 'text/plain' });
+      downloadBlob(blob, `${name}.${FILE_EXTENSIONS[exportFormat]}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to export the font.');
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const inputClassName = 'bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white w-20 focus:ring-2 focus:ring-cyan-400 focus:outline-none';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog" aria-modal="true" aria-labelledby="batch-title"
+    >
+      <div
+        className="bg-gray-800 rounded-xl shadow-2xl border border-gray-700 w-full max-w-5xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <header className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 id="batch-title" className="text-xl font-semibold text-cyan-300">
+            Batch Sizes
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close dialog">
+            <CloseIcon />
+          </button>
+        </header>
+        <main className="p-6 space-y-6 overflow-y-auto">
+          <div className="space-y-2">
+            <p className="text-sm text-gray-400">
+              Each size is generated with the current settings, using its own cell size and font size adjustment.
+            </p>
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center gap-3 text-xs font-medium text-gray-400">
+                <span className="w-20">Width</span>
+                <span className="w-20">Height</span>
+                <span className="w-20">Size Adj.</span>
+              </div>
+              {presets.map((preset, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <input type="number" min="1" value={preset.width} onChange={(e) => handlePresetChange(index, 'width', e.target.value)} className={inputClassName} aria-label={`Width of size ${index + 1}`} />
+                  <input type="number" min="1" value={preset.height} onChange={(e) => handlePresetChange(index, 'height', e.target.value)} className={inputClassName} aria-label={`Height of size ${index + 1}`} />
+                  <input type="number" value={preset.fontSizeAdjustment} onChange={(e) => handlePresetChange(index, 'fontSizeAdjustment', e.target.value)} className={inputClassName} aria-label={`Font size adjustment of size ${index + 1}`} />
+                  <button
+                    onClick={() => handleRemovePreset(index)}
+                    className="w-8 h-8 rounded-md bg-gray-700 hover:bg-red-600 text-white flex items-center justify-center transition-colors"
+                    aria-label={`Remove size ${index + 1}`}
+                  >
+                    <span className="text-lg font-bold leading-none">&times;</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-3 pt-2">
+              <button onClick={handleAddPreset} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition-colors">
+                <PlusIcon />
+                Add Current Size
+              </button>
+              <button
+                onClick={handleGenerate}
+                disabled={isGenerating || presets.length === 0}
+                className="bg-cyan-500 hover:bg-cyan-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isGenerating ? `Generating...${progress ? ` ${Math.round(progress.done / progress.total * 100)}%` : ''}` : 'Generate All Sizes'}
+              </button>
+              {isGenerating && (
+                <button onClick={() => generationAbort.current?.abort()} className="bg-red-600 hover:bg-red-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+
+          {members && (
+            <div className="flex gap-4 overflow-x-auto pb-2">
+              {members.map((member, index) => {
+                const byChar = new Map(member.fontData.map(charData => [charData.char, charData]));
+                const clippedCount = member.fontData.filter(charData => charData.clipped).length;
+                return (
+                  <div key={index} className="bg-gray-900 rounded-lg border border-gray-700 p-3 flex flex-col gap-3 flex-shrink-0">
+                    <div className="flex items-center justify-between gap-4">
+                      <p className="font-semibold text-white">
+                        {member.options.width}x{member.options.height}
+                        <span className="text-xs text-gray-400 font-normal"> size adj. {member.preset.fontSizeAdjustment}</span>
+                      </p>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => onOpen({ fontData: member.fontData, fontOptions: member.preset })}
+                          className="text-xs bg-gray-700 hover:bg-gray-600 text-white font-semibold py-1 px-2 rounded-md transition-colors"
+                          title="Replace the font in the editor with this size"
+                        >
+                          Open in Editor
+                        </button>
+                        <button
+                          onClick={() => handleExportMember(index)}
+                          disabled={isGenerating}
+                          className="text-xs bg-gray-700 hover:bg-gray-600 text-white font-semibold py-1 px-2 rounded-md transition-colors flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                          title={`Download this size as ${FORMAT_LABELS[exportFormat]}`}
+                        >
+                          <DownloadIcon />
+                          Download
+                        </button>
+                      </div>
+                    </div>
+                    <div className="flex items-end gap-1">
+                      {sampleChars.map((char, charIndex) => {
+                        const charData = byChar.get(char);
+                        return charData ? <SampleGlyph key={charIndex} charData={charData} height={member.options.height} /> : null;
+                      })}
+                    </div>
+                    <p className="text-xs text-gray-400">
+                      {member.fontData.length} characters
+                      {clippedCount > 0 && <span className="text-orange-400">, {clippedCount} clipped</span>}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </main>
+        <footer className="flex flex-wrap justify-end items-center gap-3 p-4 bg-gray-900/50 border-t border-gray-700 rounded-b-xl">
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as OutputFormat)}
+            className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition"
+            aria-label="Export format"
+          >
+            {(Object.keys(FORMAT_LABELS) as OutputFormat[]).map(format => (
+              <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-400">
+            {canExportHeader ? 'Download each size from its card, or all of them in one header.' : 'Download each size from its card. Only C arrays and Adafruit GFX fonts can share one header.'}
+          </p>
+          <button
+            onClick={handleExportHeader}
+            disabled={!members || isGenerating || !canExportHeader}
+            className="px-4 py-2 rounded-md bg-cyan-500 hover:bg-cyan-600 text-white font-semibold transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon />
+            Family Header
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default BatchGenerateModal;
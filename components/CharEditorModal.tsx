@@ -1,29 +1,50 @@
 
-import React, { useState, useEffect } from 'react';
-import type { GeneratedChar } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import type { GeneratedChar, BitDepth, FontGeneratorOptions, GlyphRenderOverride } from '../types';
+import { getGlyphGrayscale, getMaxLevel, intensityToLevel } from '../services/bitmapEncoding';
+import { generateCharsAsync, isAbortError } from '../services/fontWorkerClient';
 import CharGrid from './CharGrid';
 import { CloseIcon, ArrowUpIcon, ArrowDownIcon, ArrowLeftIcon, ArrowRightIcon, FlipHorizontalIcon, FlipVerticalIcon } from './Icons';
 
 interface CharEditorModalProps {
   charData: GeneratedChar;
   height: number;
-  onSave: (newBitmap: boolean[][]) => void;
+  onSave: (newBitmap: boolean[][], newGrayscale: number[][] | undefined, override: GlyphRenderOverride | undefined) => void;
   onClose: () => void;
   isDynamicWidth: boolean;
   fullFontData: GeneratedChar[];
+  bitDepth: BitDepth;
+  options: FontGeneratorOptions;
 }
 
-const CharEditorModal: React.FC<CharEditorModalProps> = ({ charData, height, onSave, onClose, isDynamicWidth, fullFontData }) => {
-  const [bitmap, setBitmap] = useState<boolean[][]>(charData.bitmap);
+const CharEditorModal: React.FC<CharEditorModalProps> = ({ charData, height, onSave, onClose, isDynamicWidth, fullFontData, bitDepth, options }) => {
+  // Pixels are edited as intensities (0-255) so monochrome and grayscale glyphs share the same tools.
+  const [pixels, setPixels] = useState<number[][]>(() => getGlyphGrayscale(charData));
+  const [brushLevel, setBrushLevel] = useState(getMaxLevel(bitDepth));
   const [charToCopyCodePoint, setCharToCopyCodePoint] = useState<string>('');
+  const [override, setOverride] = useState<GlyphRenderOverride | undefined>(() => options.glyphOverrides[charData.codePoint]);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const renderAbort = useRef<AbortController | null>(null);
 
+  const maxLevel = getMaxLevel(bitDepth);
+  const isGrayscale = bitDepth > 1;
+  const bitmap = pixels.map(row => row.map(intensity => intensity > 0));
+  const levelToIntensity = (level: number) => Math.round(level * 255 / maxLevel);
 
   // Reset local state if the character prop changes
   useEffect(() => {
-    setBitmap(charData.bitmap);
+    setPixels(getGlyphGrayscale(charData));
     setCharToCopyCodePoint(''); // Reset selection when modal opens for a new char
+    setOverride(options.glyphOverrides[charData.codePoint]);
+    setRenderError(null);
   }, [charData]);
 
+  useEffect(() => () => renderAbort.current?.abort(), []);
+
+  useEffect(() => {
+    setBrushLevel(getMaxLevel(bitDepth));
+  }, [bitDepth]);
+
   // Handle keyboard events
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -38,18 +59,18 @@ const CharEditorModal: React.FC<CharEditorModalProps> = ({ charData, height, onS
   }, [onClose]);
 
   const handleWidthChange = (delta: number) => {
-    setBitmap(prevBitmap => {
-      const currentWidth = prevBitmap[0]?.length || 0;
+    setPixels(prevPixels => {
+      const currentWidth = prevPixels[0]?.length || 0;
       const newWidth = Math.max(0, currentWidth + delta);
 
       if (newWidth === currentWidth) {
-        return prevBitmap;
+        return prevPixels;
       }
 
-      return prevBitmap.map(row => {
+      return prevPixels.map(row => {
         if (delta > 0) {
           // Add columns
-          return [...row, ...Array(delta).fill(false)];
+          return [...row, ...Array(delta).fill(0)];
         } else {
           // Remove columns
           return row.slice(0, newWidth);
@@ -59,54 +80,57 @@ const CharEditorModal: React.FC<CharEditorModalProps> = ({ charData, height, onS
   };
 
   const handlePixelToggle = (x: number, y: number) => {
-    const newBitmap = bitmap.map(row => [...row]);
-    if (newBitmap[y]?.[x] !== undefined) {
-      newBitmap[y][x] = !newBitmap[y][x];
-      setBitmap(newBitmap);
+    const newPixels = pixels.map(row => [...row]);
+    if (newPixels[y]?.[x] !== undefined) {
+      // Clicking a pixel that already has the brush level clears it.
+      const brushIntensity = levelToIntensity(brushLevel);
+      const currentLevel = intensityToLevel(newPixels[y][x], bitDepth);
+      newPixels[y][x] = currentLevel === brushLevel ? 0 : brushIntensity;
+      setPixels(newPixels);
     }
   };
   
   const handleShift = (direction: 'up' | 'down' | 'left' | 'right') => {
-    setBitmap(prevBitmap => {
-      const currentHeight = prevBitmap.length;
-      if (currentHeight === 0) return prevBitmap;
-      const currentWidth = prevBitmap[0]?.length || 0;
-      if (currentWidth === 0 && (direction === 'left' || direction === 'right')) return prevBitmap;
+    setPixels(prevPixels => {
+      const currentHeight = prevPixels.length;
+      if (currentHeight === 0) return prevPixels;
+      const currentWidth = prevPixels[0]?.length || 0;
+      if (currentWidth === 0 && (direction === 'left' || direction === 'right')) return prevPixels;
   
-      const newBitmap = prevBitmap.map(row => [...row]);
+      const newPixels = prevPixels.map(row => [...row]);
   
       switch (direction) {
         case 'up':
-          newBitmap.shift();
-          newBitmap.push(new Array(currentWidth).fill(false));
+          newPixels.shift();
+          newPixels.push(new Array(currentWidth).fill(0));
           break;
         case 'down':
-          newBitmap.pop();
-          newBitmap.unshift(new Array(currentWidth).fill(false));
+          newPixels.pop();
+          newPixels.unshift(new Array(currentWidth).fill(0));
           break;
         case 'left':
           for (let y = 0; y < currentHeight; y++) {
-            newBitmap[y].shift();
-            newBitmap[y].push(false);
+            newPixels[y].shift();
+            newPixels[y].push(0);
           }
           break;
         case 'right':
           for (let y = 0; y < currentHeight; y++) {
-            newBitmap[y].unshift(false);
-            newBitmap[y].pop();
+            newPixels[y].unshift(0);
+            newPixels[y].pop();
           }
           break;
       }
-      return newBitmap;
+      return newPixels;
     });
   };
 
   const handleFlipHorizontal = () => {
-    setBitmap(prevBitmap => prevBitmap.map(row => [...row].reverse()));
+    setPixels(prevPixels => prevPixels.map(row => [...row].reverse()));
   };
 
   const handleFlipVertical = () => {
-    setBitmap(prevBitmap => [...prevBitmap].reverse());
+    setPixels(prevPixels => [...prevPixels].reverse());
   };
 
   const handleCopyFromChar = () => {
@@ -115,14 +139,43 @@ const CharEditorModal: React.FC<CharEditorModalProps> = ({ charData, height, onS
     const sourceChar = fullFontData.find(c => c.codePoint === parseInt(charToCopyCodePoint, 10));
     if (!sourceChar) return; // Character not found
 
-    // Deep copy the bitmap to avoid reference issues.
-    const newBitmap = sourceChar.bitmap.map(row => [...row]);
+    // Deep copy the pixels to avoid reference issues.
+    const newPixels = getGlyphGrayscale(sourceChar).map(row => [...row]);
+
+    setPixels(newPixels);
+  };
+
+  // Changing an override re-renders the glyph with it, replacing any manual edits.
+  const applyOverride = async (nextOverride: GlyphRenderOverride | undefined) => {
+    setOverride(nextOverride);
+
+    renderAbort.current?.abort();
+    const controller = new AbortController();
+    renderAbort.current = controller;
+    try {
+      const glyphOverrides = nextOverride ? { [charData.codePoint]: nextOverride } : {};
+      const [rendered] = await generateCharsAsync({ ...options, glyphOverrides }, [charData.char], { signal: controller.signal });
+      setPixels(getGlyphGrayscale(rendered));
+      setRenderError(null);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setRenderError(e instanceof Error ? e.message : 'Failed to render the character.');
+    }
+  };
+
+  const handleOverrideChange = (key: keyof GlyphRenderOverride, value: GlyphRenderOverride[typeof key] | undefined) => {
+    const next: GlyphRenderOverride = { ...override, [key]: value };
+    if (value === undefined) delete next[key];
+    applyOverride(Object.keys(next).length > 0 ? next : undefined);
+  };
 
-    setBitmap(newBitmap);
+  const handleOverrideNumberChange = (key: 'xOffset' | 'yOffset' | 'fontSizeAdjustment' | 'renderThreshold', value: string) => {
+    const parsed = parseInt(value, 10);
+    handleOverrideChange(key, Number.isNaN(parsed) ? undefined : parsed);
   };
 
   const handleSave = () => {
-    onSave(bitmap);
+    onSave(bitmap, isGrayscale ? pixels : undefined, override);
   };
 
   const charWidth = bitmap[0]?.length || 0;
@@ -164,7 +217,7 @@ const CharEditorModal: React.FC<CharEditorModalProps> = ({ charData, height, onS
               {/* Grid and bottom controls */}
               <div className="flex flex-col items-center gap-4">
                   <CharGrid 
-                      charData={{...charData, bitmap}} // Pass the local, mutable bitmap
+                      charData={{...charData, bitmap, grayscale: isGrayscale ? pixels : undefined}} // Pass the local, mutable pixels
                       width={charWidth} 
                       height={height}
                       onPixelToggle={handlePixelToggle}
@@ -193,6 +246,24 @@ const CharEditorModal: React.FC<CharEditorModalProps> = ({ charData, height, onS
                           </button>
                       </div>
 
+                      {/* Intensity palette */}
+                      {isGrayscale && (
+                          <div className="flex flex-wrap items-center justify-center gap-1 bg-gray-900 p-2 rounded-lg max-w-xs">
+                              <span className="font-medium text-gray-300 text-sm mr-1">Intensity:</span>
+                              {Array.from({ length: maxLevel + 1 }, (_, level) => (
+                                  <button
+                                      key={level}
+                                      onClick={() => setBrushLevel(level)}
+                                      className={`w-5 h-5 rounded-sm bg-gray-700 border ${brushLevel === level ? 'border-white ring-1 ring-cyan-400' : 'border-gray-600'}`}
+                                      style={{ backgroundColor: level > 0 ? `rgba(103, 232, 249, ${level / maxLevel})` : undefined }}
+                                      title={`Level ${level}`}
+                                      aria-label={`Paint with intensity level ${level}`}
+                                      aria-pressed={brushLevel === level}
+                                  />
+                              ))}
+                          </div>
+                      )}
+
                       {/* Width controls */}
                       {isDynamicWidth && (
                           <div className="flex items-center gap-3 bg-gray-900 p-2 rounded-lg">
@@ -243,6 +314,54 @@ const CharEditorModal: React.FC<CharEditorModalProps> = ({ charData, height, onS
                 </button>
             </div>
         </div>
+          <div className="mt-4 p-4 bg-gray-900/50 border border-gray-700 rounded-lg w-full max-w-md mx-auto">
+            <h4 className="text-md font-semibold text-gray-300 mb-1">Render Overrides</h4>
+            <p className="text-xs text-gray-400 mb-3">
+              Settings used for this character only. Leave a field empty to use the global value. Changing an override re-renders the character.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              {([
+                ['xOffset', 'X Offset', options.autoAlign === 'manual' ? options.xOffset : 0],
+                ['yOffset', 'Y Offset', options.autoAlign === 'manual' ? options.yOffset : 0],
+                ['fontSizeAdjustment', 'Size Adjust', options.fontSizeAdjustment],
+                ['renderThreshold', 'Threshold', options.renderThreshold],
+              ] as const).map(([key, label, globalValue]) => (
+                <label key={key} className="flex flex-col gap-1 text-sm text-gray-300">
+                  {label}
+                  <input
+                    type="number"
+                    value={override?.[key] ?? ''}
+                    placeholder={String(globalValue)}
+                    min={key === 'renderThreshold' ? 0 : undefined}
+                    max={key === 'renderThreshold' ? 255 : undefined}
+                    onChange={(e) => handleOverrideNumberChange(key, e.target.value)}
+                    className="bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition"
+                  />
+                </label>
+              ))}
+              <label className="flex flex-col gap-1 text-sm text-gray-300 col-span-2">
+                Render Mode
+                <select
+                  value={override?.renderMode ?? ''}
+                  onChange={(e) => handleOverrideChange('renderMode', (e.target.value || undefined) as GlyphRenderOverride['renderMode'])}
+                  className="bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition"
+                >
+                  <option value="">Global ({options.renderMode})</option>
+                  <option value="aliased">Aliased</option>
+                  <option value="anti-aliased">Anti-aliased</option>
+                  <option value="dithered">Dithered</option>
+                </select>
+              </label>
+            </div>
+            {renderError && <p className="mt-2 text-sm text-red-400">{renderError}</p>}
+            <button
+              onClick={() => applyOverride(undefined)}
+              disabled={!override}
+              className="mt-3 px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Clear Overrides
+            </button>
+          </div>
         </main>
         
         <footer className="flex justify-end gap-3 p-4 bg-gray-900/50 border-t border-gray-700 rounded-b-xl mt-auto">
@@ -7,7 +7,7 @@ interface CharGridProps {
   width: number;
   height: number;
   onPixelToggle?: (x: number, y: number) => void;
-  onClick?: () => void;
+  onClick?: (e: React.MouseEvent | React.KeyboardEvent) => void;
   onDelete?: () => void;
   zoom?: number;
   draggable?: boolean;
@@ -19,12 +19,20 @@ interface CharGridProps {
   onDragLeave?: (e: React.DragEvent) => void;
   isBeingDragged?: boolean;
   isDragTarget?: boolean;
+  isSelected?: boolean;
 }
 
+// Blends between the "off" (gray-700) and "on" (cyan-300) pixel colors for grayscale glyphs.
+const intensityColor = (intensity: number): string => {
+  const t = Math.max(0, Math.min(255, intensity)) / 255;
+  const mix = (off: number, on: number) => Math.round(off + (on - off) * t);
+  return `rgb(${mix(0x37, 0x67)}, ${mix(0x41, 0xe8)}, ${mix(0x51, 0xf9)})`;
+};
+
 const CharGrid: React.FC<CharGridProps> = ({ 
     charData, width, height, onPixelToggle, onClick, onDelete, zoom = 1,
     draggable, onDragStart, onDragOver, onDrop, onDragEnd, onDragEnter, onDragLeave,
-    isBeingDragged, isDragTarget 
+    isBeingDragged, isDragTarget, isSelected
 }) => {
 
   const basePixelSizeRem = 0.75;
@@ -38,7 +46,8 @@ const CharGrid: React.FC<CharGridProps> = ({
     onDelete ? 'group relative' : '',
     draggable ? 'cursor-grab' : '',
     isBeingDragged ? 'opacity-50' : (isDragTarget ? '' : 'hover:border-cyan-400 hover:scale-105'),
-    isDragTarget ? 'border-cyan-400 scale-105 ring-2 ring-offset-2 ring-offset-gray-800 ring-cyan-400' : ''
+    isDragTarget ? 'border-cyan-400 scale-105 ring-2 ring-offset-2 ring-offset-gray-800 ring-cyan-400' : '',
+    isSelected && !isDragTarget ? 'border-purple-400 ring-2 ring-purple-400' : ''
   ].filter(Boolean).join(' ');
 
 
@@ -51,7 +60,7 @@ const CharGrid: React.FC<CharGridProps> = ({
       onKeyDown={(e) => {
         if (onClick && (e.key === 'Enter' || e.key === ' ')) {
           e.preventDefault();
-          onClick();
+          onClick(e);
         }
       }}
       draggable={draggable}
@@ -85,11 +94,14 @@ const CharGrid: React.FC<CharGridProps> = ({
             const row = Math.floor(i / width);
             const col = i % width;
             const pixel = charData.bitmap[row]?.[col] ?? false;
+            const intensity = charData.grayscale?.[row]?.[col];
+            const isPartial = pixel && intensity !== undefined && intensity < 255;
             return (
                 <div
                     key={i}
                     onClick={onPixelToggle ? () => onPixelToggle(col, row) : undefined}
                     className={`w-full h-full rounded-[1px] ${pixel ? 'bg-cyan-300' : 'bg-gray-700'} ${onPixelToggle ? 'cursor-pointer hover:bg-opacity-70' : ''}`}
+                    style={isPartial ? { backgroundColor: intensityColor(intensity) } : undefined}
                 ></div>
             );
         })}
@@ -1,8 +1,11 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useDeferredValue } from 'react';
 import type { GeneratedChar, FontGeneratorOptions } from '../types';
-import { CodeIcon, ClipboardCheckIcon, ClipboardIcon } from './Icons';
+import { generatePsfFont } from '../services/psfFont';
+import { generateFontCode, FILE_EXTENSIONS, PSF_VERSIONS, type OutputFormat } from '../services/fontExport';
+import { getFontName, downloadBlob } from '../services/exportUtils';
+import { CodeIcon, ClipboardCheckIcon, ClipboardIcon, DownloadIcon } from './Icons';
 
-type OutputFormat = 'c' | 'python' | 'hex';
+const MAX_DISPLAYED_LINES = 2000;
 
 interface CodeOutputProps {
   fontData: GeneratedChar[];
@@ -36,263 +39,24 @@ const CodeOutput: React.FC<CodeOutputProps> = ({ fontData, options }) => {
   const [copied, setCopied] = useState(false);
   const [outputFormat, setOutputFormat] = useState<OutputFormat>('c');
 
-  const generateCode = useCallback(() => {
-    const { fontFamily, width, height, charSpacing, characterSet, dynamicWidth } = options;
-    const fontName = `font_${fontFamily.replace(/\s+/g, '_').replace(/[^a-zA-Z0-9_]/g, '')}_${width}x${height}`;
-
-    // --- Generate Character Mapping Guide ---
-    const blocks: {startCp: number, endCp: number, startIndex: number}[] = [];
-    if (fontData.length > 0) {
-        let currentBlock = {
-            startCp: fontData[0].codePoint,
-            endCp: fontData[0].codePoint,
-            startIndex: 0,
-        };
-        for (let i = 1; i < fontData.length; i++) {
-            if (fontData[i].codePoint === fontData[i-1].codePoint + 1) {
-                currentBlock.endCp = fontData[i].codePoint;
-            } else {
-                blocks.push(currentBlock);
-                currentBlock = {
-                    startCp: fontData[i].codePoint,
-                    endCp: fontData[i].codePoint,
-                    startIndex: i,
-                };
-            }
-        }
-        blocks.push(currentBlock);
-    }
-
-    const mappingGuideLines: string[] = [];
-    if (blocks.length > 0) {
-        mappingGuideLines.push('Character Mapping Guide');
-        mappingGuideLines.push('-----------------------');
-        mappingGuideLines.push("To find a character's index, use its UTF-8 code point and the formula below.");
-        mappingGuideLines.push('');
-        
-        blocks.forEach(block => {
-            const offset = block.startCp - block.startIndex;
-            const startHex = `0x${block.startCp.toString(16).toUpperCase()}`;
-            const endHex = `0x${block.endCp.toString(16).toUpperCase()}`;
-            const offsetHex = `0x${offset.toString(16).toUpperCase()}`;
-            const charCount = block.endCp - block.startCp + 1;
-            
-            mappingGuideLines.push(`Range: [${startHex} - ${endHex}] (${charCount} chars) --> index = utf8_code - ${offsetHex}`);
-        });
-    }
-
-    const formatMappingGuide = (lang: 'c' | 'python') => {
-        if (mappingGuideLines.length === 0) return '';
-        if (lang === 'c') {
-            return '/*\n' + mappingGuideLines.map(line => ` * ${line}`).join('\n') + '\n */\n\n';
-        } else { // python
-            return mappingGuideLines.map(line => `# ${line}`).join('\n') + '\n\n';
-        }
-    };
-
-    
-    if (dynamicWidth) {
-        let baseHeaderC = `// Font: ${fontFamily}, Size: Up to ${width}x${height} (Dynamic Width)\n`;
-        baseHeaderC += `// Characters: "${characterSet.replace(/\n/g, "\\n")}"\n`;
-        baseHeaderC += `// To render a character, get its width from ${fontName}_widths[],\n`;
-        baseHeaderC += `// its offset from ${fontName}_offsets[], and then read the bytes\n`;
-        baseHeaderC += `// from ${fontName}_data[] starting at that offset.\n`;
-
-        const widths: number[] = [];
-        const offsets: number[] = [];
-        const font_data: number[] = [];
-        let currentOffset = 0;
-
-        fontData.forEach(charData => {
-            const charWidth = charData.bytes.length;
-            widths.push(charWidth);
-            offsets.push(currentOffset);
-            font_data.push(...charData.bytes);
-            currentOffset += charWidth;
-        });
-        
-        const formatHex = (b: number) => `0x${b.toString(16).padStart(2, '0').toUpperCase()}`;
-
-        const ranges: { start: GeneratedChar; end: GeneratedChar; startIndex: number; endIndex: number }[] = [];
-        if (fontData.length > 0) {
-            let currentRange = {
-            start: fontData[0],
-            end: fontData[0],
-            startIndex: 0,
-            endIndex: 0
-            };
-            for (let i = 1; i < fontData.length; i++) {
-            if (fontData[i].codePoint === fontData[i - 1].codePoint + 1) {
-                currentRange.end = fontData[i];
-                currentRange.endIndex = i;
-            } else {
-                ranges.push(currentRange);
-                currentRange = {
-                start: fontData[i],
-                end: fontData[i],
-                startIndex: i,
-                endIndex: i
-                };
-            }
-            }
-            ranges.push(currentRange);
-        }
-
-        switch (outputFormat) {
-            case 'c': {
-                let cCode = formatMappingGuide('c') + baseHeaderC + `\n`;
-                const CHUNK_SIZE = 16;
-        
-                const formatRangeComment = (range: typeof ranges[0]) => {
-                    const start = range.start;
-                    const end = range.end;
-                    const escChar = (c: string) => c.replace(/'/g, "\\'").replace(/\\/g, "\\\\");
-                    if (start.codePoint === end.codePoint) {
-                        return `  // Char '${escChar(start.char)}' (Code: ${start.codePoint})\n`;
-                    }
-                    return `  // Characters '${escChar(start.char)}' (Code: ${start.codePoint}) to '${escChar(end.char)}' (Code: ${end.codePoint})\n`;
-                };
-        
-                cCode += `// Width of each character in pixels (columns)\n`;
-                cCode += `const unsigned char ${fontName}_widths[] = {\n`;
-                if (ranges.length === 0 && widths.length > 0) {
-                    cCode += `  ${widths.join(', ')}\n`;
-                } else if (ranges.length > 0) {
-                    ranges.forEach(range => {
-                        cCode += formatRangeComment(range);
-                        const rangeValues = widths.slice(range.startIndex, range.endIndex + 1);
-                        for (let i = 0; i < rangeValues.length; i += CHUNK_SIZE) {
-                            cCode += '  ' + rangeValues.slice(i, i + CHUNK_SIZE).join(', ') + ',\n';
-                        }
-                    });
-                    cCode = cCode.slice(0, -2) + '\n';
-                }
-                cCode += `};\n\n`;
-        
-                cCode += `// Start address of each character in the font data array\n`;
-                cCode += `const unsigned int ${fontName}_offsets[] = {\n`;
-                if (ranges.length === 0 && offsets.length > 0) {
-                    cCode += `  ${offsets.join(', ')}\n`;
-                } else if (ranges.length > 0) {
-                  ranges.forEach(range => {
-                      cCode += formatRangeComment(range);
-                      const rangeValues = offsets.slice(range.startIndex, range.endIndex + 1);
-                      for (let i = 0; i < rangeValues.length; i += CHUNK_SIZE) {
-                          cCode += '  ' + rangeValues.slice(i, i + CHUNK_SIZE).join(', ') + ',\n';
-                      }
-                  });
-                  cCode = cCode.slice(0, -2) + '\n';
-                }
-                cCode += `};\n\n`;
-                
-                cCode += `// Font data, column by column, for all characters concatenated\n`;
-                cCode += `const unsigned char ${fontName}_data[] = {\n`;
-                if (font_data.length > 0) {
-                  for (let i = 0; i < font_data.length; i += CHUNK_SIZE) {
-                    cCode += '  ' + font_data.slice(i, i + CHUNK_SIZE).map(formatHex).join(', ') + ',\n';
-                  }
-                  cCode = cCode.slice(0, -2) + '\n';
-                }
-                cCode += `};\n`;
-                return cCode;
-            }
-
-            case 'python': {
-                let pyCode = formatMappingGuide('python') + baseHeaderC.replace(/\/\//g, '#') + `\n`;
-                const PY_CHUNK_SIZE = 16;
-        
-                const formatRangeComment = (range: typeof ranges[0]) => {
-                    const start = range.start;
-                    const end = range.end;
-                    const escChar = (c: string) => c.replace(/'/g, "\\'").replace(/\\/g, "\\\\");
-                    if (start.codePoint === end.codePoint) {
-                        return `    # Char '${escChar(start.char)}' (Code: ${start.codePoint})\n`;
-                    }
-                    return `    # Characters '${escChar(start.char)}' (Code: ${start.codePoint}) to '${escChar(end.char)}' (Code: ${end.codePoint})\n`;
-                };
-
-                pyCode += `# Width of each character in pixels (columns)\n`;
-                pyCode += `${fontName}_widths = [\n`;
-                if (ranges.length === 0 && widths.length > 0) {
-                     pyCode += `    ${widths.join(', ')}\n`;
-                } else if (ranges.length > 0) {
-                    ranges.forEach(range => {
-                        pyCode += formatRangeComment(range);
-                        const rangeValues = widths.slice(range.startIndex, range.endIndex + 1);
-                        for (let i = 0; i < rangeValues.length; i += PY_CHUNK_SIZE) {
-                            pyCode += '    ' + rangeValues.slice(i, i + PY_CHUNK_SIZE).join(', ') + ',\n';
-                        }
-                    });
-                    pyCode = pyCode.slice(0, -2) + '\n';
-                }
-                pyCode += `]\n\n`;
-
-                pyCode += `# Start address of each character in the font data array\n`;
-                pyCode += `${fontName}_offsets = [\n`;
-                if (ranges.length === 0 && offsets.length > 0) {
-                    pyCode += `    ${offsets.join(', ')}\n`;
-                } else if (ranges.length > 0) {
-                    ranges.forEach(range => {
-                        pyCode += formatRangeComment(range);
-                        const rangeValues = offsets.slice(range.startIndex, range.endIndex + 1);
-                        for (let i = 0; i < rangeValues.length; i += PY_CHUNK_SIZE) {
-                            pyCode += '    ' + rangeValues.slice(i, i + PY_CHUNK_SIZE).join(', ') + ',\n';
-                        }
-                    });
-                    pyCode = pyCode.slice(0, -2) + '\n';
-                }
-                pyCode += `]\n\n`;
-
-                pyCode += `# Font data, column by column, for all characters concatenated\n`;
-                pyCode += `${fontName}_data = [\n`;
-                if (font_data.length > 0) {
-                    for (let i = 0; i < font_data.length; i += PY_CHUNK_SIZE) {
-                        pyCode += '    ' + font_data.slice(i, i + PY_CHUNK_SIZE).map(b => `0x${b.toString(16).padStart(2, '0')}`).join(', ') + ',\n';
-                    }
-                    pyCode = pyCode.slice(0, -2) + '\n';
-                }
-                pyCode += `]\n`;
-                return pyCode;
-            }
-            
-            case 'hex':
-                return `--- WIDTHS ---\n${widths.map(w => w.toString(16).padStart(2, '0').toUpperCase()).join(' ')}\n\n--- OFFSETS ---\n${offsets.map(o => o.toString(16).padStart(4, '0').toUpperCase()).join(' ')}\n\n--- DATA ---\n${font_data.map(b => b.toString(16).padStart(2, '0').toUpperCase()).join(' ')}`;
-        }
-    }
-
-
-    const baseHeaderC = `// Font: ${fontFamily}, Size: ${width}x${height} (+${charSpacing}px spacing)\n// Characters: "${characterSet.replace(/\n/g, "\\n")}"\n`;
+  const generateBinary = useCallback((): Uint8Array | null => {
+    const psfVersion = PSF_VERSIONS[outputFormat];
+    return psfVersion ? generatePsfFont(fontData, options, psfVersion) : null;
+  }, [fontData, options, outputFormat]);
 
-    switch (outputFormat) {
-        case 'c':
-            let cCode = formatMappingGuide('c') + baseHeaderC + `// Each byte represents a column, with the MSB as the top row.\n`;
-            cCode += `const unsigned char ${fontName}[] = {\n`;
-            fontData.forEach(charData => {
-                const hexBytes = charData.bytes.map(b => `0x${b.toString(16).padStart(2, '0').toUpperCase()}`).join(', ');
-                cCode += `  /* Char '${charData.char.replace(/'/g, "\\'").replace(/\\/g, "\\\\")}' (Code: ${charData.codePoint}) */\n`;
-                cCode += `  ${hexBytes},\n`;
-            });
-            cCode += `};\n`;
-            return cCode;
+  // Changes only when a field the exporters read changes, so moving a rendering slider does not re-encode every glyph.
+  const { fontFamily, fontWeight, width, height, charSpacing, characterSet, dynamicWidth, byteLayout, bitOrder, bitDepth, orientation } = options;
+  const exportOptions = useMemo(() => options, [fontFamily, fontWeight, width, height, charSpacing, characterSet, dynamicWidth, byteLayout, bitOrder, bitDepth, orientation]);
 
-        case 'python':
-            let pyCode = formatMappingGuide('python') + baseHeaderC.replace(/\/\//g, '#') + `# Each byte represents a column, with the MSB as the top row.\n`;
-            pyCode += `${fontName} = [\n`;
-            fontData.forEach(charData => {
-                const hexBytes = charData.bytes.map(b => `0x${b.toString(16).padStart(2, '0')}`).join(', ');
-                pyCode += `  # Char '${charData.char.replace(/'/g, "\\'").replace(/\\/g, "\\\\")}' (Code: ${charData.codePoint})\n`;
-                pyCode += `  ${hexBytes},\n`;
-            });
-            pyCode += `]\n`;
-            return pyCode;
-        
-        case 'hex':
-            return fontData.map(charData => 
-                charData.bytes.map(b => `${b.toString(16).padStart(2, '0').toUpperCase()}`).join(' ')
-            ).join('\n');
+  const buildCode = useCallback((data: GeneratedChar[], codeOptions: FontGeneratorOptions) => {
+    try {
+      return generateFontCode(data, codeOptions, outputFormat, getFontName(codeOptions));
+    } catch (e) {
+      return `// ${e instanceof Error ? e.message : 'Could not generate the font.'}`;
     }
+  }, [outputFormat]);
 
-  }, [fontData, options, outputFormat]);
+  const generateCode = useCallback(() => buildCode(fontData, exportOptions), [buildCode, fontData, exportOptions]);
 
   const handleCopy = useCallback(() => {
     const code = generateCode();
@@ -302,8 +66,32 @@ const CodeOutput: React.FC<CodeOutputProps> = ({ fontData, options }) => {
     });
   }, [generateCode]);
 
-  const codeString = generateCode();
-  const highlightedCode = highlightCode(codeString);
+  const handleDownload = useCallback(() => {
+    const fileName = `${getFontName(options)}.${FILE_EXTENSIONS[outputFormat]}`;
+    let binary: Uint8Array | null;
+    try {
+      binary = generateBinary();
+    } catch {
+      return; // The error is already shown in the code view.
+    }
+    const blob = binary
+      ? new Blob([binary], { type: 'application/octet-stream' })
+      : new Blob([generateCode()], { type: 'text/plain' });
+    downloadBlob(blob, fileName);
+  }, [generateBinary, generateCode, options, outputFormat]);
+
+  // Large fonts produce megabytes of code; only the beginning is shown, Copy and Download use all of it.
+  // The view is built from deferred values so React can keep the editor responsive while it catches up.
+  const deferredFontData = useDeferredValue(fontData);
+  const deferredOptions = useDeferredValue(exportOptions);
+  const { highlightedCode, hiddenLineCount } = useMemo(() => {
+    const lines = buildCode(deferredFontData, deferredOptions).split('\n');
+    const hidden = Math.max(0, lines.length - MAX_DISPLAYED_LINES);
+    return {
+      highlightedCode: highlightCode(lines.slice(0, MAX_DISPLAYED_LINES).join('\n')),
+      hiddenLineCount: hidden,
+    };
+  }, [buildCode, deferredFontData, deferredOptions]);
 
   return (
     <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl shadow-lg p-6 border border-gray-700">
@@ -318,6 +106,10 @@ const CodeOutput: React.FC<CodeOutputProps> = ({ fontData, options }) => {
                 <option value="c">C Array</option>
                 <option value="python">Python List</option>
                 <option value="hex">Plain Hex</option>
+                <option value="gfx">Adafruit GFX Font</option>
+                <option value="bdf">BDF Font</option>
+                <option value="psf2">Linux Console Font (PSF2)</option>
+                <option value="psf1">Linux Console Font (PSF1)</option>
             </select>
             <button
               onClick={handleCopy}
@@ -326,6 +118,14 @@ const CodeOutput: React.FC<CodeOutputProps> = ({ fontData, options }) => {
               {copied ? <ClipboardCheckIcon /> : <ClipboardIcon />}
               {copied ? 'Copied!' : 'Copy'}
             </button>
+            <button
+              onClick={handleDownload}
+              className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition-colors"
+              title={`Download as .${FILE_EXTENSIONS[outputFormat]}`}
+            >
+              <DownloadIcon />
+              Download
+            </button>
         </div>
       </div>
       <div className="bg-gray-900 rounded-md p-4 max-h-96 overflow-auto border border-gray-700">
@@ -335,6 +135,9 @@ const CodeOutput: React.FC<CodeOutputProps> = ({ fontData, options }) => {
             dangerouslySetInnerHTML={{ __html: highlightedCode }}
           />
         </pre>
+        {hiddenLineCount > 0 && (
+          <p className="text-xs text-amber-400 mt-2">{hiddenLineCount} more lines not shown. Use Copy or Download to get the full output.</p>
+        )}
       </div>
     </div>
   );
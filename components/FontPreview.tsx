@@ -1,9 +1,29 @@
 
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import type { GeneratedChar } from '../types';
-import { EyeIcon, PlusIcon } from './Icons';
+import { renderSpriteSheet, generateSpriteSheetManifest, generateSvgSpecimen, type SpriteSheetExportOptions } from '../services/spriteSheet';
+import { downloadBlob } from '../services/exportUtils';
+import type { GlyphEffect } from '../services/glyphEffects';
+import { EyeIcon, PlusIcon, DownloadIcon, SparklesIcon } from './Icons';
 import CharGrid from './CharGrid';
 
+// Size of one glyph pixel in CharGrid (0.75rem) and the room its padding, border and labels take.
+const PIXEL_SIZE_PX = 12;
+const CELL_CHROME_WIDTH_PX = 26;
+const CELL_CHROME_HEIGHT_PX = 82;
+const MIN_SLOT_WIDTH_PX = 96;
+const GRID_GAP_PX = 16;
+// Rows rendered above and below the visible area.
+const OVERSCAN_ROWS = 2;
+
+const EFFECT_LABELS: Record<GlyphEffect, string> = {
+  outline: 'Outline',
+  bold: 'Bold',
+  shadow: 'Shadow',
+  underline: 'Underline',
+  invert: 'Invert',
+};
+
 interface FontPreviewProps {
   fontData: GeneratedChar[];
   height: number;
@@ -13,6 +33,11 @@ interface FontPreviewProps {
   draggedCharIndex: number | null;
   setDraggedCharIndex: (index: number | null) => void;
   onCharCopy: (sourceIndex: number, destinationIndex: number) => void;
+  exportName: string;
+  selectedCodePoints: Set<number>;
+  onCharSelect: (codePoint: number) => void;
+  onClearSelection: () => void;
+  onApplyEffect: (effect: GlyphEffect) => void;
 }
 
 const FontPreview: React.FC<FontPreviewProps> = ({ 
@@ -23,9 +48,80 @@ const FontPreview: React.FC<FontPreviewProps> = ({
   onAddCharClick, 
   draggedCharIndex, 
   setDraggedCharIndex,
-  onCharCopy 
+  onCharCopy,
+  exportName,
+  selectedCodePoints,
+  onCharSelect,
+  onClearSelection,
+  onApplyEffect,
 }) => {
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isEffectsOpen, setIsEffectsOpen] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewport({ width: element.clientWidth, height: element.clientHeight }));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // The grid is virtualized: every slot has the same size, and only the rows in view are rendered,
+  // so fonts with many thousands of glyphs stay responsive.
+  const maxGlyphWidth = useMemo(() => fontData.reduce((max, charData) => Math.max(max, charData.bitmap[0]?.length || 0), 1), [fontData]);
+  const slotWidth = Math.max(MIN_SLOT_WIDTH_PX, maxGlyphWidth * PIXEL_SIZE_PX + CELL_CHROME_WIDTH_PX);
+  const slotHeight = height * PIXEL_SIZE_PX + CELL_CHROME_HEIGHT_PX;
+  const rowHeight = slotHeight + GRID_GAP_PX;
+  const contentWidth = viewport.width - 16; // Minus the scroll container's p-2 padding
+  const columns = Math.max(1, Math.floor((contentWidth + GRID_GAP_PX) / (slotWidth + GRID_GAP_PX)));
+  const itemCount = fontData.length + 1; // The last slot is the "Add Char" button
+  const rowCount = Math.ceil(itemCount / columns);
+  const firstRow = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN_ROWS);
+  const visibleRows = Math.ceil((viewport.height || window.innerHeight) / rowHeight) + OVERSCAN_ROWS * 2 + 1;
+  const firstItem = firstRow * columns;
+  const lastItem = Math.min(itemCount, (firstRow + visibleRows) * columns);
+  const coverageCounts = useMemo(() => ({
+    fallback: fontData.filter(charData => charData.fontCoverage === 'fallback').length,
+    missing: fontData.filter(charData => charData.fontCoverage === 'missing').length,
+    clipped: fontData.filter(charData => charData.clipped).length,
+  }), [fontData]);
+  const [sheetOptions, setSheetOptions] = useState<SpriteSheetExportOptions>({ cellsPerRow: 16, padding: 1, scale: 1 });
+
+  const handleSheetOptionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    const min = name === 'padding' ? 0 : 1;
+    setSheetOptions(prev => ({ ...prev, [name]: Math.max(min, parseInt(value, 10) || min) }));
+  };
+
+  // The PNG and its JSON manifest are separate downloads; browsers block a second download started by one click.
+  const handleExportSpriteSheet = () => {
+    renderSpriteSheet(fontData, height, sheetOptions).toBlob(blob => {
+      if (blob) downloadBlob(blob, `${exportName}.png`);
+    }, 'image/png');
+  };
+
+  const handleExportManifest = () => {
+    const manifest = generateSpriteSheetManifest(fontData, height, sheetOptions, `${exportName}.png`);
+    downloadBlob(new Blob([manifest], { type: 'application/json' }), `${exportName}.json`);
+  };
+
+  const handleExportSvg = () => {
+    const svg = generateSvgSpecimen(fontData, height, sheetOptions);
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${exportName}.svg`);
+  };
+
+  // Ctrl/Cmd or Shift-click selects glyphs for effects; a plain click opens the editor.
+  const handleCharClick = (e: React.MouseEvent | React.KeyboardEvent, index: number) => {
+    if (e.ctrlKey || e.metaKey || e.shiftKey) {
+      onCharSelect(fontData[index].codePoint);
+    } else {
+      onCharClick(index);
+    }
+  };
 
   const handleDragStart = (e: React.DragEvent, index: number) => {
     e.dataTransfer.effectAllowed = 'copy';
@@ -57,40 +153,159 @@ const FontPreview: React.FC<FontPreviewProps> = ({
         <h2 className="text-2xl font-semibold text-cyan-300 flex items-center gap-2">
           <EyeIcon/>Visual Preview & Editor
         </h2>
-        <p className="text-sm text-gray-400">Click to edit, drag to copy, hover to delete, or add a new one.</p>
+        <div className="flex flex-wrap items-center gap-4">
+          <p className="text-sm text-gray-400">{fontData.length} characters. Click to edit, Ctrl/Shift-click to select, drag to copy, hover to delete, or add a new one.</p>
+          {(coverageCounts.fallback > 0 || coverageCounts.missing > 0 || coverageCounts.clipped > 0) && (
+            <p className="text-sm flex gap-2">
+              {coverageCounts.fallback > 0 && <span className="text-amber-400">{coverageCounts.fallback} from fallback fonts</span>}
+              {coverageCounts.missing > 0 && <span className="text-red-400">{coverageCounts.missing} missing</span>}
+              {coverageCounts.clipped > 0 && <span className="text-orange-400">{coverageCounts.clipped} clipped</span>}
+            </p>
+          )}
+          <button
+            onClick={() => setIsExportOpen(open => !open)}
+            className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition-colors"
+            aria-expanded={isExportOpen}
+          >
+            <DownloadIcon />
+            Export Image
+          </button>
+          <button
+            onClick={() => setIsEffectsOpen(open => !open)}
+            className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition-colors"
+            aria-expanded={isEffectsOpen}
+          >
+            <SparklesIcon />
+            Effects
+          </button>
+        </div>
       </div>
 
-      <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-6 lg:grid-cols-8 xl:grid-cols-10 gap-4">
-        {fontData.map((charData, index) => {
-          const charWidth = charData.bitmap[0]?.length || 0;
-          return (
-            <CharGrid 
-              key={`${charData.codePoint}-${index}`} 
-              charData={charData} 
-              width={charWidth} 
-              height={height}
-              onClick={() => onCharClick(index)}
-              onDelete={() => onCharDelete(index)}
-              draggable
-              onDragStart={(e) => handleDragStart(e, index)}
-              onDragOver={handleDragOver}
-              onDrop={(e) => handleDrop(e, index)}
-              onDragEnd={handleDragEnd}
-              onDragEnter={() => draggedCharIndex !== index && setDragOverIndex(index)}
-              onDragLeave={() => setDragOverIndex(null)}
-              isBeingDragged={draggedCharIndex === index}
-              isDragTarget={dragOverIndex === index && draggedCharIndex !== index}
-            />
-          )
-        })}
-        <button
-          onClick={onAddCharClick}
-          className="bg-gray-900/50 min-h-[124px] p-3 rounded-lg border-2 border-dashed border-gray-600 flex flex-col items-center justify-center shadow-md cursor-pointer transition-all duration-150 hover:border-cyan-400 hover:scale-105 hover:text-cyan-400 text-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:ring-offset-2 focus:ring-offset-gray-800"
-          aria-label="Add new character"
-        >
-          <PlusIcon />
-          <span className="mt-2 text-sm font-semibold">Add Char</span>
-        </button>
+      {isEffectsOpen && (
+        <div className="bg-gray-900/50 rounded-lg border border-gray-700 p-4 mb-4 flex flex-wrap items-center gap-4">
+          <p className="text-sm text-gray-300">
+            {selectedCodePoints.size > 0
+              ? `Applies to ${selectedCodePoints.size} selected glyph${selectedCodePoints.size === 1 ? '' : 's'}.`
+              : 'Applies to the whole font. Ctrl/Shift-click glyphs to select some.'}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(EFFECT_LABELS) as GlyphEffect[]).map(effect => (
+              <button
+                key={effect}
+                onClick={() => onApplyEffect(effect)}
+                className="bg-cyan-600 hover:bg-cyan-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+              >
+                {EFFECT_LABELS[effect]}
+              </button>
+            ))}
+          </div>
+          {selectedCodePoints.size > 0 && (
+            <button onClick={onClearSelection} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors">
+              Clear Selection
+            </button>
+          )}
+        </div>
+      )}
+
+      {isExportOpen && (
+        <div className="bg-gray-900/50 rounded-lg border border-gray-700 p-4 mb-4 flex flex-wrap items-end gap-4">
+          <div className="flex flex-col">
+            <label htmlFor="sheetCellsPerRow" className="mb-1 text-sm font-medium text-gray-300">Cells per Row</label>
+            <input type="number" id="sheetCellsPerRow" name="cellsPerRow" value={sheetOptions.cellsPerRow} onChange={handleSheetOptionChange} min="1" className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white w-24 focus:ring-2 focus:ring-cyan-400 focus:outline-none" />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="sheetPadding" className="mb-1 text-sm font-medium text-gray-300">Padding (px)</label>
+            <input type="number" id="sheetPadding" name="padding" value={sheetOptions.padding} onChange={handleSheetOptionChange} min="0" className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white w-24 focus:ring-2 focus:ring-cyan-400 focus:outline-none" />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="sheetScale" className="mb-1 text-sm font-medium text-gray-300">Scale</label>
+            <input type="number" id="sheetScale" name="scale" value={sheetOptions.scale} onChange={handleSheetOptionChange} min="1" max="32" className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white w-24 focus:ring-2 focus:ring-cyan-400 focus:outline-none" />
+          </div>
+          <button onClick={handleExportSpriteSheet} className="bg-cyan-600 hover:bg-cyan-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors" title="Download a PNG sprite sheet">
+            PNG Sprite Sheet
+          </button>
+          <button onClick={handleExportManifest} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors" title="Download the JSON file mapping code points to cells of the PNG sprite sheet with these settings">
+            JSON Manifest
+          </button>
+          <button onClick={handleExportSvg} className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors" title="Download an SVG specimen with one rect per lit pixel">
+            SVG Specimen
+          </button>
+        </div>
+      )}
+
+      <div
+        ref={scrollRef}
+        onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+        className="max-h-[70vh] overflow-y-auto p-2 -m-2"
+      >
+        <div className="relative" style={{ height: rowCount * rowHeight - GRID_GAP_PX }}>
+          {Array.from({ length: Math.max(0, lastItem - firstItem) }, (_, offset) => {
+            const index = firstItem + offset;
+            const position = {
+              position: 'absolute' as const,
+              left: (index % columns) * (slotWidth + GRID_GAP_PX),
+              top: Math.floor(index / columns) * rowHeight,
+              width: slotWidth,
+              height: slotHeight,
+            };
+
+            if (index === fontData.length) {
+              return (
+                <button
+                  key="add-char"
+                  onClick={onAddCharClick}
+                  style={position}
+                  className="bg-gray-900/50 p-3 rounded-lg border-2 border-dashed border-gray-600 flex flex-col items-center justify-center shadow-md cursor-pointer transition-all duration-150 hover:border-cyan-400 hover:scale-105 hover:text-cyan-400 text-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:ring-offset-2 focus:ring-offset-gray-800"
+                  aria-label="Add new character"
+                >
+                  <PlusIcon />
+                  <span className="mt-2 text-sm font-semibold">Add Char</span>
+                </button>
+              );
+            }
+
+            const charData = fontData[index];
+            const charWidth = charData.bitmap[0]?.length || 0;
+            return (
+              <div key={`${charData.codePoint}-${index}`} style={position} className="flex justify-center items-start">
+                <CharGrid 
+                  charData={charData} 
+                  width={charWidth} 
+                  height={height}
+                  onClick={(e) => handleCharClick(e, index)}
+                  onDelete={() => onCharDelete(index)}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, index)}
+                  onDragOver={handleDragOver}
+                  onDrop={(e) => handleDrop(e, index)}
+                  onDragEnd={handleDragEnd}
+                  onDragEnter={() => draggedCharIndex !== index && setDragOverIndex(index)}
+                  onDragLeave={() => setDragOverIndex(null)}
+                  isBeingDragged={draggedCharIndex === index}
+                  isDragTarget={dragOverIndex === index && draggedCharIndex !== index}
+                  isSelected={selectedCodePoints.has(charData.codePoint)}
+                />
+                {(charData.fontCoverage || charData.clipped) && (
+                  <div className="absolute top-0 left-0 -mt-2 flex gap-1">
+                    {charData.fontCoverage && (
+                      <span
+                        className={`px-1.5 rounded text-[10px] font-semibold uppercase text-white ${charData.fontCoverage === 'missing' ? 'bg-red-600' : 'bg-amber-600'}`}
+                        title={charData.fontCoverage === 'missing' ? 'No font in the chain has this glyph; the browser substituted one' : 'Drawn with a fallback font'}
+                      >
+                        {charData.fontCoverage}
+                      </span>
+                    )}
+                    {charData.clipped && (
+                      <span className="px-1.5 rounded text-[10px] font-semibold uppercase text-white bg-orange-600" title="The glyph reaches past the cell edges and was cut off">
+                        clipped
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
       </div>
     </div>
   );
@@ -1,7 +1,13 @@
 
 import React, { useState } from 'react';
-import type { ParsedFontData, GeneratedChar } from '../types';
+import type { ParsedFontData, GeneratedChar, ByteEncoding, GlyphOrientation } from '../types';
 import { parseImportedData, parseArrayString } from '../services/fontParser';
+import { parseGfxFont } from '../services/gfxFont';
+import { parseBdfFont } from '../services/bdfFont';
+import { parsePsfFont } from '../services/psfFont';
+import { parseSpriteSheet, type SpriteSheetImportOptions } from '../services/spriteSheet';
+import { bitmapToBytes, getGlyphByteCount, DEFAULT_BYTE_ENCODING, DEFAULT_ORIENTATION, MAX_CHAR_HEIGHT } from '../services/bitmapEncoding';
+import { isSideways } from '../services/bitmapUtils';
 import { CloseIcon, UploadIcon } from './Icons';
 
 interface ImportFontModalProps {
@@ -11,21 +17,6 @@ interface ImportFontModalProps {
 
 // --- Conversion Helper Functions ---
 
-function bitmapToBytes(bitmap: boolean[][], height: number): number[] {
-    const bytes: number[] = [];
-    const width = bitmap[0]?.length || 0;
-    for (let c = 0; c < width; c++) {
-        let byte = 0;
-        for (let r = 0; r < height; r++) {
-            if (bitmap[r]?.[c]) {
-                byte |= (1 << (height - 1 - r));
-            }
-        }
-        bytes.push(byte);
-    }
-    return bytes;
-}
-
 function alignBitmap(bitmap: boolean[][], direction: 'top' | 'bottom'): boolean[][] {
   const height = bitmap.length;
   if (height === 0) return bitmap;
@@ -67,13 +58,13 @@ function alignBitmap(bitmap: boolean[][], direction: 'top' | 'bottom'): boolean[
 }
 
 
-function convertToDynamic(fontData: GeneratedChar[], originalWidth: number): { newData: GeneratedChar[], maxWidth: number } {
+function convertToDynamic(fontData: GeneratedChar[], originalWidth: number, encoding: ByteEncoding): { newData: GeneratedChar[], maxWidth: number } {
   let maxWidth = 0;
   const newData = fontData.map(charData => {
     if (charData.char === ' ') {
       const spaceWidth = Math.max(1, Math.floor(originalWidth / 2));
       const newBitmap = Array.from({ length: charData.bitmap.length }, () => new Array(spaceWidth).fill(false));
-      const newBytes = Array(spaceWidth).fill(0);
+      const newBytes = bitmapToBytes(newBitmap, charData.bitmap.length, encoding);
       if (spaceWidth > maxWidth) maxWidth = spaceWidth;
       return { ...charData, bitmap: newBitmap, bytes: newBytes };
     }
@@ -97,7 +88,7 @@ function convertToDynamic(fontData: GeneratedChar[], originalWidth: number): { n
       const newWidth = maxX - minX + 1;
       if (newWidth > maxWidth) maxWidth = newWidth;
       const newBitmap = charData.bitmap.map(row => row.slice(minX, maxX + 1));
-      const newBytes = charData.bytes.slice(minX, maxX + 1);
+      const newBytes = bitmapToBytes(newBitmap, height, encoding);
       return { ...charData, bitmap: newBitmap, bytes: newBytes };
     }
   });
@@ -105,35 +96,49 @@ function convertToDynamic(fontData: GeneratedChar[], originalWidth: number): { n
 }
 
 
-function convertToFixed(fontData: GeneratedChar[], newWidth: number): GeneratedChar[] {
+function convertToFixed(fontData: GeneratedChar[], newWidth: number, encoding: ByteEncoding): GeneratedChar[] {
   return fontData.map(charData => {
-    const currentWidth = charData.bytes.length;
+    const currentWidth = charData.bitmap[0]?.length ?? 0;
     if (currentWidth === newWidth) return charData;
 
     let newBitmap: boolean[][];
-    let newBytes: number[];
 
     if (currentWidth > newWidth) { // Truncate
       newBitmap = charData.bitmap.map(row => row.slice(0, newWidth));
-      newBytes = charData.bytes.slice(0, newWidth);
     } else { // Pad
       const paddingCols = newWidth - currentWidth;
       const bitmapPadding = Array(paddingCols).fill(false);
       newBitmap = charData.bitmap.map(row => [...row, ...bitmapPadding]);
-      const bytePadding = Array(paddingCols).fill(0);
-      newBytes = [...charData.bytes, ...bytePadding];
     }
 
-    return { ...charData, bitmap: newBitmap, bytes: newBytes };
+    return { ...charData, bitmap: newBitmap, bytes: bitmapToBytes(newBitmap, charData.bitmap.length, encoding) };
   });
 }
 
 
+type SourceFormat = 'array' | 'gfx' | 'bdf' | 'psf' | 'sheet';
+
 const ImportFontModal: React.FC<ImportFontModalProps> = ({ onClose, onImport }) => {
+  const [sourceFormat, setSourceFormat] = useState<SourceFormat>('array');
+  const [gfxSource, setGfxSource] = useState('');
+  const [bdfSource, setBdfSource] = useState('');
+  const [psfFile, setPsfFile] = useState<{ name: string; buffer: ArrayBuffer } | null>(null);
+  const [sheetImage, setSheetImage] = useState<{ name: string; url: string; imageData: ImageData } | null>(null);
+  const [sheetOptions, setSheetOptions] = useState<SpriteSheetImportOptions>({
+    cellWidth: 8,
+    cellHeight: 8,
+    columns: 16,
+    startCodePoint: 0x20,
+    glyphCount: 0,
+    threshold: 128,
+    inkColor: 'light',
+  });
   const [isDynamic, setIsDynamic] = useState(false);
   const [characterSet, setCharacterSet] = useState('');
   const [height, setHeight] = useState(8);
   const [width, setWidth] = useState(6); // Only for fixed-width
+  const [encoding, setEncoding] = useState<ByteEncoding>(DEFAULT_BYTE_ENCODING);
+  const [orientation, setOrientation] = useState<GlyphOrientation>(DEFAULT_ORIENTATION);
   const [rawData, setRawData] = useState('');
   const [rawWidths, setRawWidths] = useState('');
   const [rawOffsets, setRawOffsets] = useState('');
@@ -152,18 +157,37 @@ const ImportFontModal: React.FC<ImportFontModalProps> = ({ onClose, onImport })
   const [verticalAlign, setVerticalAlign] = useState<'keep' | 'top' | 'bottom'>('keep');
 
 
+  const parseSource = (): ParsedFontData => {
+    switch (sourceFormat) {
+      case 'gfx':
+        return parseGfxFont(gfxSource, encoding);
+      case 'bdf':
+        return parseBdfFont(bdfSource, encoding);
+      case 'psf':
+        if (!psfFile) throw new Error('Please choose a .psf file first.');
+        return parsePsfFont(psfFile.buffer, encoding);
+      case 'sheet':
+        if (!sheetImage) throw new Error('Please choose a sprite sheet image first.');
+        return parseSpriteSheet(sheetImage.imageData, sheetOptions, encoding);
+      default:
+        return parseImportedData({
+          rawData,
+          rawWidths,
+          rawOffsets,
+          characterSet,
+          charHeight: height,
+          charWidth: width,
+          isDynamic,
+          encoding,
+          orientation,
+        });
+    }
+  };
+
   const handleParseAndPreview = () => {
     setError(null);
     try {
-      const result = parseImportedData({
-        rawData,
-        rawWidths,
-        rawOffsets,
-        characterSet,
-        charHeight: height,
-        charWidth: width,
-        isDynamic,
-      });
+      const result = parseSource();
       setParsedData(result);
       // Set sensible defaults for the conversion screen
       setConversionMode('keep'); 
@@ -189,7 +213,7 @@ const ImportFontModal: React.FC<ImportFontModalProps> = ({ onClose, onImport })
         if (conversionMode === 'convert') {
             if (parsedData.fontOptions.dynamicWidth) {
                 // Dynamic -> Fixed
-                tempFontData = convertToFixed(parsedData.fontData, newFixedWidth);
+                tempFontData = convertToFixed(parsedData.fontData, newFixedWidth, encoding);
                 tempFontOptions = {
                     ...parsedData.fontOptions,
                     dynamicWidth: false,
@@ -199,7 +223,7 @@ const ImportFontModal: React.FC<ImportFontModalProps> = ({ onClose, onImport })
                 };
             } else {
                 // Fixed -> Dynamic
-                const { newData, maxWidth } = convertToDynamic(parsedData.fontData, parsedData.fontOptions.width || 0);
+                const { newData, maxWidth } = convertToDynamic(parsedData.fontData, parsedData.fontOptions.width || 0, encoding);
                 tempFontData = newData;
                 tempFontOptions = {
                     ...parsedData.fontOptions,
@@ -215,7 +239,7 @@ const ImportFontModal: React.FC<ImportFontModalProps> = ({ onClose, onImport })
         if (verticalAlign !== 'keep') {
             tempFontData = tempFontData.map(charData => {
                 const newBitmap = alignBitmap(charData.bitmap, verticalAlign);
-                const newBytes = bitmapToBytes(newBitmap, tempFontOptions.height || height);
+                const newBytes = bitmapToBytes(newBitmap, tempFontOptions.height || height, encoding);
                 return {...charData, bitmap: newBitmap, bytes: newBytes};
             });
         }
@@ -396,10 +420,13 @@ const ImportFontModal: React.FC<ImportFontModalProps> = ({ onClose, onImport })
                  throw new Error('Could not parse any numbers from the "Font Data Array". Please check the format (e.g., { 0x01, 0x02, 0x03 }).');
             }
             
-            if (dataBytes.length % width !== 0) {
-                setError(`Warning: Data array size (${dataBytes.length}) is not a perfect multiple of the character width (${width}). Some data may be truncated.`);
+            const bytesPerChar = isSideways(orientation)
+                ? getGlyphByteCount(height, width, encoding)
+                : getGlyphByteCount(width, height, encoding);
+            if (dataBytes.length % bytesPerChar !== 0) {
+                setError(`Warning: Data array size (${dataBytes.length}) is not a perfect multiple of the character size (${bytesPerChar} bytes). Some data may be truncated.`);
             }
-            numChars = Math.floor(dataBytes.length / width);
+            numChars = Math.floor(dataBytes.length / bytesPerChar);
         }
         
         if (numChars <= 0) {
@@ -418,6 +445,61 @@ const ImportFontModal: React.FC<ImportFontModalProps> = ({ onClose, onImport })
     }
   };
 
+  const handleLoadTextFile = async (e: React.ChangeEvent<HTMLInputElement>, setText: (text: string) => void) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+    try {
+      setText(await file.text());
+      setError(null);
+    } catch {
+      setError(`Could not read the file "${file.name}".`);
+    }
+  };
+
+  const handleLoadPsfFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPsfFile({ name: file.name, buffer: await file.arrayBuffer() });
+      setError(null);
+    } catch {
+      setError(`Could not read the file "${file.name}".`);
+    }
+  };
+
+  const handleLoadSheetImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const bitmap = await createImageBitmap(file);
+      const canvas = document.createElement('canvas');
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Could not get canvas context');
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      setSheetImage(prev => {
+        if (prev) URL.revokeObjectURL(prev.url);
+        return { name: file.name, url: URL.createObjectURL(file), imageData };
+      });
+      setError(null);
+    } catch {
+      setError(`Could not decode the image "${file.name}". Use a PNG or BMP file.`);
+    }
+  };
+
+  const updateSheetOption = (key: keyof SpriteSheetImportOptions, value: string) => {
+    setSheetOptions(prev => ({
+      ...prev,
+      [key]: key === 'inkColor' ? value : key === 'startCodePoint' ? parseInt(value, 16) || 0 : parseInt(value, 10) || 0,
+    }));
+  };
+
   const renderImportForm = () => {
     const commonTextareaClasses = "bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white font-mono resize-y focus:ring-2 focus:ring-cyan-400 focus:outline-none transition w-full";
     const fieldsetClasses = "border border-gray-600 rounded-xl p-4";
@@ -431,15 +513,124 @@ const ImportFontModal: React.FC<ImportFontModalProps> = ({ onClose, onImport })
         {/* --- STEP 1: Select Font Type --- */}
         <fieldset className={fieldsetClasses}>
           <legend className={legendClasses}><span className={stepNumberClasses}>1.</span>Select Font Type</legend>
-          <div className="flex flex-col space-y-2 pt-2">
+          <div className="flex flex-col pt-2">
+            <label htmlFor="sourceFormat" className="mb-2 font-medium text-gray-300">Source Format</label>
+            <select id="sourceFormat" value={sourceFormat} onChange={e => setSourceFormat(e.target.value as SourceFormat)} className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition">
+              <option value="array">C / Python Byte Array</option>
+              <option value="gfx">Adafruit GFX Font Header (.h)</option>
+              <option value="bdf">BDF Bitmap Font (.bdf)</option>
+              <option value="psf">Linux Console Font (.psf)</option>
+              <option value="sheet">Sprite Sheet Image (.png, .bmp)</option>
+            </select>
+          </div>
+          {sourceFormat === 'array' && (
+          <div className="flex flex-col space-y-2 pt-4">
             <label className="flex items-center gap-3 cursor-pointer mt-1">
               <input type="checkbox" name="dynamicWidth" checked={isDynamic} onChange={(e) => setIsDynamic(e.target.checked)} />
               <span className="font-medium text-gray-300">Dynamic Width Font</span>
             </label>
             <p className="text-xs text-gray-500 pl-7">Check this if your font uses width and offset lookup tables.</p>
           </div>
+          )}
         </fieldset>
 
+        {sourceFormat === 'gfx' ? (
+          <fieldset className={fieldsetClasses}>
+            <legend className={legendClasses}><span className={stepNumberClasses}>2.</span>Provide GFX Header</legend>
+            <div className="space-y-2">
+              <textarea id="gfxSource" value={gfxSource} onChange={(e) => setGfxSource(e.target.value)} className={`${commonTextareaClasses} h-64`} placeholder="const uint8_t MyFontBitmaps[] PROGMEM = { ... };&#10;const GFXglyph MyFontGlyphs[] PROGMEM = { ... };&#10;const GFXfont MyFont PROGMEM = { ... };" />
+              <div className="flex flex-wrap items-center gap-3">
+                <label className={`${helperButtonClasses} cursor-pointer`}>
+                  Load .h File
+                  <input type="file" accept=".h,.c,.txt" className="hidden" onChange={e => handleLoadTextFile(e, setGfxSource)} />
+                </label>
+                <p className="text-xs text-gray-500">Paste the whole header. The character set, height and glyph offsets are read from the GFXglyph table.</p>
+              </div>
+            </div>
+          </fieldset>
+        ) : sourceFormat === 'sheet' ? (
+          <fieldset className={fieldsetClasses}>
+            <legend className={legendClasses}><span className={stepNumberClasses}>2.</span>Provide Sprite Sheet</legend>
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <label className={`${helperButtonClasses} cursor-pointer`}>
+                  Load Image
+                  <input type="file" accept="image/png,image/bmp,.png,.bmp" className="hidden" onChange={handleLoadSheetImage} />
+                </label>
+                <span className="text-sm text-gray-300 font-mono">
+                  {sheetImage ? `${sheetImage.name} (${sheetImage.imageData.width}x${sheetImage.imageData.height})` : 'No file selected'}
+                </span>
+              </div>
+              {sheetImage && (
+                <div className="bg-gray-900 rounded-md p-2 border border-gray-700 max-h-48 overflow-auto">
+                  <img src={sheetImage.url} alt="Sprite sheet preview" className="max-w-none" style={{ imageRendering: 'pixelated', width: sheetImage.imageData.width * 2 }} />
+                </div>
+              )}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="flex flex-col">
+                  <label htmlFor="sheetCellWidth" className="mb-1 text-sm font-medium text-gray-300">Cell Width (px)</label>
+                  <input type="number" id="sheetCellWidth" value={sheetOptions.cellWidth} onChange={e => updateSheetOption('cellWidth', e.target.value)} min="1" className={smallInputClasses} />
+                </div>
+                <div className="flex flex-col">
+                  <label htmlFor="sheetCellHeight" className="mb-1 text-sm font-medium text-gray-300">Cell Height (px)</label>
+                  <input type="number" id="sheetCellHeight" value={sheetOptions.cellHeight} onChange={e => updateSheetOption('cellHeight', e.target.value)} min="1" max={MAX_CHAR_HEIGHT} className={smallInputClasses} />
+                </div>
+                <div className="flex flex-col">
+                  <label htmlFor="sheetColumns" className="mb-1 text-sm font-medium text-gray-300">Columns</label>
+                  <input type="number" id="sheetColumns" value={sheetOptions.columns} onChange={e => updateSheetOption('columns', e.target.value)} min="0" className={smallInputClasses} />
+                </div>
+                <div className="flex flex-col">
+                  <label htmlFor="sheetGlyphCount" className="mb-1 text-sm font-medium text-gray-300">Glyph Count</label>
+                  <input type="number" id="sheetGlyphCount" value={sheetOptions.glyphCount} onChange={e => updateSheetOption('glyphCount', e.target.value)} min="0" className={smallInputClasses} />
+                </div>
+                <div className="flex flex-col">
+                  <label htmlFor="sheetStartCodePoint" className="mb-1 text-sm font-medium text-gray-300">Start Code (Hex)</label>
+                  <input type="text" id="sheetStartCodePoint" value={sheetOptions.startCodePoint.toString(16).toUpperCase()} onChange={e => updateSheetOption('startCodePoint', e.target.value)} className={`${smallInputClasses} font-mono`} />
+                </div>
+                <div className="flex flex-col">
+                  <label htmlFor="sheetInkColor" className="mb-1 text-sm font-medium text-gray-300">Glyph Color</label>
+                  <select id="sheetInkColor" value={sheetOptions.inkColor} onChange={e => updateSheetOption('inkColor', e.target.value)} className={smallInputClasses}>
+                    <option value="light">Light on Dark</option>
+                    <option value="dark">Dark on Light</option>
+                  </select>
+                </div>
+                <div className="flex flex-col col-span-2">
+                  <label htmlFor="sheetThreshold" className="mb-1 text-sm font-medium text-gray-300">Threshold: {sheetOptions.threshold}</label>
+                  <input type="range" id="sheetThreshold" value={sheetOptions.threshold} onChange={e => updateSheetOption('threshold', e.target.value)} min="0" max="254" className="w-full appearance-none cursor-pointer" />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">Cells are read left to right, top to bottom. Set Columns or Glyph Count to 0 to use the whole image; trailing empty cells are then dropped. Transparent pixels always count as background.</p>
+            </div>
+          </fieldset>
+        ) : sourceFormat === 'psf' ? (
+          <fieldset className={fieldsetClasses}>
+            <legend className={legendClasses}><span className={stepNumberClasses}>2.</span>Provide PSF Font</legend>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className={`${helperButtonClasses} cursor-pointer`}>
+                Load .psf File
+                <input type="file" accept=".psf,.psfu" className="hidden" onChange={handleLoadPsfFile} />
+              </label>
+              <span className="text-sm text-gray-300 font-mono">{psfFile ? psfFile.name : 'No file selected'}</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">PSF1 and PSF2 are supported. Characters are taken from the Unicode table; without one, glyph N is mapped to code point N. Gzipped fonts (.psf.gz) must be decompressed first.</p>
+          </fieldset>
+        ) : sourceFormat === 'bdf' ? (
+          <fieldset className={fieldsetClasses}>
+            <legend className={legendClasses}><span className={stepNumberClasses}>2.</span>Provide BDF Font</legend>
+            <div className="space-y-2">
+              <textarea id="bdfSource" value={bdfSource} onChange={(e) => setBdfSource(e.target.value)} className={`${commonTextareaClasses} h-64`} placeholder="STARTFONT 2.1&#10;FONTBOUNDINGBOX 6 13 0 -2&#10;...&#10;ENDFONT" />
+              <div className="flex flex-wrap items-center gap-3">
+                <label className={`${helperButtonClasses} cursor-pointer`}>
+                  Load .bdf File
+                  <input type="file" accept=".bdf,.txt" className="hidden" onChange={e => handleLoadTextFile(e, setBdfSource)} />
+                </label>
+                <p className="text-xs text-gray-500">The character set, height and width mode are read from the glyph encodings, bounding boxes and SPACING property.</p>
+              </div>
+            </div>
+          </fieldset>
+        ) : (
+        <>
+
         {/* --- STEP 2: Provide Font Data --- */}
         <fieldset className={fieldsetClasses}>
           <legend className={legendClasses}><span className={stepNumberClasses}>2.</span>Provide Font Data</legend>
@@ -513,16 +704,54 @@ const ImportFontModal: React.FC<ImportFontModalProps> = ({ onClose, onImport })
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="flex flex-col">
               <label htmlFor="height" className="mb-2 font-medium text-gray-300">Character Height (px)</label>
-              <input type="number" id="height" value={height} onChange={e => setHeight(parseInt(e.target.value, 10))} min="1" max="8" className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition" required />
-              <p className="text-xs text-gray-500 mt-1">Must be between 1 and 8.</p>
+              <input type="number" id="height" value={height} onChange={e => setHeight(parseInt(e.target.value, 10))} min="1" max={MAX_CHAR_HEIGHT} className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition" required />
+              <p className="text-xs text-gray-500 mt-1">Must be between 1 and {MAX_CHAR_HEIGHT}. Heights above 8 use multiple bytes per column.</p>
             </div>
             <div className={`flex flex-col transition-opacity ${isDynamic ? 'opacity-50' : ''}`}>
               <label htmlFor="width" className="mb-2 font-medium text-gray-300">Character Width (px)</label>
               <input type="number" id="width" value={width} onChange={e => setWidth(parseInt(e.target.value, 10))} min="1" disabled={isDynamic} className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition disabled:opacity-50 disabled:cursor-not-allowed" />
               <p className="text-xs text-gray-500 mt-1">Required for fixed-width fonts only.</p>
             </div>
+            <div className="flex flex-col">
+              <label htmlFor="byteLayout" className="mb-2 font-medium text-gray-300">Byte Layout</label>
+              <select id="byteLayout" value={encoding.byteLayout} onChange={e => setEncoding(prev => ({ ...prev, byteLayout: e.target.value as ByteEncoding['byteLayout'] }))} className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition">
+                <option value="column-major">Column-Major (Vertical Bytes)</option>
+                <option value="row-major">Row-Major (Horizontal Bytes)</option>
+                <option value="page">Page (SSD1306/SH1106)</option>
+              </select>
+            </div>
+            <div className="flex flex-col">
+              <label htmlFor="bitOrder" className="mb-2 font-medium text-gray-300">Bit Order</label>
+              <select id="bitOrder" value={encoding.bitOrder} onChange={e => setEncoding(prev => ({ ...prev, bitOrder: e.target.value as ByteEncoding['bitOrder'] }))} className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition">
+                <option value="msb-first">MSB First</option>
+                <option value="lsb-first">LSB First</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Must match how the data was exported.</p>
+            </div>
+            <div className="flex flex-col">
+              <label htmlFor="importRotation" className="mb-2 font-medium text-gray-300">Stored Orientation</label>
+              <select id="importRotation" value={orientation.rotation} onChange={e => setOrientation(prev => ({ ...prev, rotation: parseInt(e.target.value, 10) as GlyphOrientation['rotation'] }))} className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:ring-2 focus:ring-cyan-400 focus:outline-none transition">
+                <option value={0}>Upright (0°)</option>
+                <option value={90}>Rotated 90° Clockwise</option>
+                <option value={180}>Rotated 180°</option>
+                <option value={270}>Rotated 270° Clockwise</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Glyphs are turned back upright. Height and width are those of the upright glyph.</p>
+            </div>
+            <div className="flex flex-col justify-center gap-2">
+              <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-300">
+                <input type="checkbox" checked={orientation.mirrorX} onChange={e => setOrientation(prev => ({ ...prev, mirrorX: e.target.checked }))} />
+                Mirrored X
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-300">
+                <input type="checkbox" checked={orientation.mirrorY} onChange={e => setOrientation(prev => ({ ...prev, mirrorY: e.target.checked }))} />
+                Mirrored Y
+              </label>
+            </div>
           </div>
         </fieldset>
+        </>
+        )}
       </div>
     );
   };
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import type { FontGeneratorOptions, GeneratedChar, ParsedFontData } from '../types';
+import { getResampledHeight, RESAMPLE_FACTORS, resampleFont, type ResampleMethod } from '../services/resample';
+import { MAX_CHAR_HEIGHT } from '../services/bitmapEncoding';
+import { CloseIcon } from './Icons';
+
+interface ResampleModalProps {
+  onClose: () => void;
+  onApply: (data: ParsedFontData) => void;
+  fontData: GeneratedChar[];
+  options: FontGeneratorOptions;
+}
+
+const METHOD_LABELS: Record<ResampleMethod, string> = {
+  nearest: 'Nearest Neighbour (enlarge)',
+  scale2x: 'Scale2x / EPX (enlarge, smooth diagonals)',
+  majority: 'Majority Vote (shrink)',
+};
+
+const ResampleModal: React.FC<ResampleModalProps> = ({ onClose, onApply, fontData, options }) => {
+  const [method, setMethod] = useState<ResampleMethod>('nearest');
+  const [factor, setFactor] = useState(2);
+  const [error, setError] = useState<string | null>(null);
+
+  const newHeight = getResampledHeight(options.height, method, factor);
+  const isTooTall = newHeight > MAX_CHAR_HEIGHT;
+
+  const handleMethodChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newMethod = e.target.value as ResampleMethod;
+    setMethod(newMethod);
+    if (!RESAMPLE_FACTORS[newMethod].includes(factor)) {
+      setFactor(RESAMPLE_FACTORS[newMethod][0]);
+    }
+    setError(null);
+  };
+
+  const handleApply = () => {
+    try {
+      onApply(resampleFont(fontData, options, method, factor));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to resample the font.');
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      role="dialog" aria-modal="true" aria-labelledby="resample-title"
+    >
+      <div
+        className="bg-gray-800 rounded-xl shadow-2xl border border-gray-700 w-full max-w-sm flex flex-col"
+        onClick={e => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <header className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 id="resample-title" className="text-xl font-semibold text-cyan-300">
+            Resample Font
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close dialog">
+            <CloseIcon />
+          </button>
+        </header>
+        <main className="p-6 space-y-4">
+          <p className="text-sm text-gray-400">
+            Scales the current glyphs, including manual edits, instead of rendering the font again.
+          </p>
+          <div>
+            <label htmlFor="resample-method" className="block mb-2 font-medium text-gray-300">Method</label>
+            <select
+              id="resample-method"
+              value={method}
+              onChange={handleMethodChange}
+              className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white w-full focus:ring-2 focus:ring-cyan-400 focus:outline-none transition"
+            >
+              {(Object.keys(METHOD_LABELS) as ResampleMethod[]).map(m => (
+                <option key={m} value={m}>{METHOD_LABELS[m]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="resample-factor" className="block mb-2 font-medium text-gray-300">Factor</label>
+            <select
+              id="resample-factor"
+              value={factor}
+              onChange={(e) => { setFactor(parseInt(e.target.value, 10)); setError(null); }}
+              className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white w-full focus:ring-2 focus:ring-cyan-400 focus:outline-none transition"
+            >
+              {RESAMPLE_FACTORS[method].map(f => (
+                <option key={f} value={f}>{method === 'majority' ? `1/${f}` : `${f}x`}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-gray-400">
+            Height: <span className="font-semibold text-gray-300">{options.height}px</span> →{' '}
+            <span className={`font-semibold ${isTooTall ? 'text-red-400' : 'text-gray-300'}`}>{newHeight}px</span>
+            {isTooTall && ` (maximum is ${MAX_CHAR_HEIGHT}px)`}
+          </p>
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+        </main>
+        <footer className="flex justify-end gap-3 p-4 bg-gray-900/50 border-t border-gray-700 rounded-b-xl">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white font-semibold transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={isTooTall}
+            className="px-4 py-2 rounded-md bg-cyan-500 hover:bg-cyan-600 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Resample
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ResampleModal;
@@ -0,0 +1,39 @@
+import type { FontGeneratorOptions } from '../types';
+import { generateCharsAsync, type GenerationCallbacks } from './fontWorkerClient';
+
+// Finds the largest font size adjustment at which no glyph of the character set is clipped, searching
+// from a 1px font up to twice the cell height. Each step renders the whole set, so progress counts steps.
+export async function findAutoFitSizeAdjustment(options: FontGeneratorOptions, callbacks: GenerationCallbacks = {}): Promise<number> {
+    const { onProgress, signal } = callbacks;
+    // Glyphs with their own size adjustment do not depend on the global one.
+    const characters = [...new Set(Array.from(options.characterSet))]
+        .filter(char => options.glyphOverrides[char.codePointAt(0)!]?.fontSizeAdjustment === undefined);
+    if (characters.length === 0) {
+        throw new Error('Character set cannot be empty.');
+    }
+
+    let low = 1 - options.height;
+    let high = options.height;
+    const totalSteps = 1 + Math.ceil(Math.log2(high - low + 1));
+    let step = 0;
+
+    const fits = async (fontSizeAdjustment: number) => {
+        const chars = await generateCharsAsync({ ...options, fontSizeAdjustment }, characters, { signal });
+        onProgress?.(++step, totalSteps);
+        return chars.every(charData => !charData.clipped);
+    };
+
+    if (!(await fits(low))) {
+        throw new Error('Some glyphs are clipped even at the smallest size. Increase the width or check the alignment and offsets.');
+    }
+    // Binary search, assuming a larger size never clips fewer glyphs.
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (await fits(mid)) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return low;
+}
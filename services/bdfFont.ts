@@ -0,0 +1,277 @@
+import type { GeneratedChar, FontGeneratorOptions, ParsedFontData, ByteEncoding } from '../types';
+import { bitmapToBytes, MAX_CHAR_HEIGHT } from './bitmapEncoding';
+import { getInkBounds } from './bitmapUtils';
+
+const BDF_RESOLUTION = 75;
+
+// Glyph name used in STARTCHAR, following the Adobe Glyph List "uniXXXX" convention.
+function getGlyphName(codePoint: number): string {
+    const hex = codePoint.toString(16).toUpperCase();
+    return codePoint <= 0xFFFF ? `uni${hex.padStart(4, '0')}` : `u${hex.padStart(5, '0')}`;
+}
+
+// XLFD fields may not contain dashes.
+function toXlfdField(value: string): string {
+    return value.replace(/-/g, ' ').trim() || 'Unknown';
+}
+
+// Builds a BDF 2.1 font. Like the GFX export, the bottom of the cell is the baseline and
+// dynamic-width glyphs advance by their width plus one pixel of spacing.
+// Glyph bitmaps are cropped to their ink; BBX places them back inside the cell.
+export function generateBdfFont(fontData: GeneratedChar[], options: FontGeneratorOptions, fontName: string): string {
+    const { fontFamily, fontWeight, height, dynamicWidth } = options;
+
+    const glyphs = fontData.map(charData => {
+        const cellWidth = charData.bitmap[0]?.length || 0;
+        return {
+            charData,
+            dWidth: dynamicWidth ? cellWidth + 1 : cellWidth,
+            bounds: getInkBounds(charData.bitmap),
+        };
+    });
+
+    const maxWidth = Math.max(1, ...glyphs.map(glyph => glyph.dWidth));
+    const averageWidth = glyphs.length > 0
+        ? Math.round(glyphs.reduce((sum, glyph) => sum + glyph.dWidth, 0) / glyphs.length)
+        : maxWidth;
+    const spacing = dynamicWidth ? 'P' : 'C';
+    const weightName = fontWeight === 'bold' ? 'Bold' : 'Medium';
+    const family = toXlfdField(fontFamily);
+    const defaultChar = fontData.find(charData => charData.codePoint === 0x20) ?? fontData[0];
+
+    const properties: string[] = [
+        `FOUNDRY "DotMatrixFontGenerator"`,
+        `FAMILY_NAME "${family}"`,
+        `WEIGHT_NAME "${weightName}"`,
+        `SLANT "R"`,
+        `SETWIDTH_NAME "Normal"`,
+        `PIXEL_SIZE ${height}`,
+        `POINT_SIZE ${height * 10}`,
+        `RESOLUTION_X ${BDF_RESOLUTION}`,
+        `RESOLUTION_Y ${BDF_RESOLUTION}`,
+        `SPACING "${spacing}"`,
+        `AVERAGE_WIDTH ${averageWidth * 10}`,
+        `CHARSET_REGISTRY "ISO10646"`,
+        `CHARSET_ENCODING "1"`,
+        `FONT_ASCENT ${height}`,
+        `FONT_DESCENT 0`,
+    ];
+    if (defaultChar) {
+        properties.push(`DEFAULT_CHAR ${defaultChar.codePoint}`);
+    }
+
+    const lines: string[] = [
+        'STARTFONT 2.1',
+        `COMMENT Generated by Dot Matrix Font Generator from ${fontFamily} (${fontName})`,
+        `FONT -DotMatrixFontGenerator-${family}-${weightName}-R-Normal--${height}-${height * 10}-${BDF_RESOLUTION}-${BDF_RESOLUTION}-${spacing}-${averageWidth * 10}-ISO10646-1`,
+        `SIZE ${height} ${BDF_RESOLUTION} ${BDF_RESOLUTION}`,
+        `FONTBOUNDINGBOX ${maxWidth} ${height} 0 0`,
+        `STARTPROPERTIES ${properties.length}`,
+        ...properties,
+        'ENDPROPERTIES',
+        `CHARS ${glyphs.length}`,
+    ];
+
+    glyphs.forEach(({ charData, dWidth, bounds }) => {
+        // SWIDTH is the advance in 1/1000 of the point size.
+        const sWidth = Math.round(dWidth * 1000 * 72 / (height * BDF_RESOLUTION));
+        lines.push(`STARTCHAR ${getGlyphName(charData.codePoint)}`);
+        lines.push(`ENCODING ${charData.codePoint}`);
+        lines.push(`SWIDTH ${sWidth} 0`);
+        lines.push(`DWIDTH ${dWidth} 0`);
+
+        if (!bounds) {
+            lines.push('BBX 0 0 0 0');
+            lines.push('BITMAP');
+        } else {
+            const { minX, maxX, minY, maxY } = bounds;
+            const boxWidth = maxX - minX + 1;
+            const bytesPerRow = Math.ceil(boxWidth / 8);
+            lines.push(`BBX ${boxWidth} ${maxY - minY + 1} ${minX} ${height - 1 - maxY}`);
+            lines.push('BITMAP');
+            for (let y = minY; y <= maxY; y++) {
+                const rowBytes = new Array(bytesPerRow).fill(0);
+                for (let x = minX; x <= maxX; x++) {
+                    if (charData.bitmap[y][x]) {
+                        const bit = x - minX;
+                        rowBytes[bit >> 3] |= 0x80 >> (bit & 7);
+                    }
+                }
+                lines.push(rowBytes.map(b => b.toString(16).padStart(2, '0').toUpperCase()).join(''));
+            }
+        }
+        lines.push('ENDCHAR');
+    });
+
+    lines.push('ENDFONT');
+    return lines.join('\n') + '\n';
+}
+
+interface BdfGlyph {
+    codePoint: number;
+    dWidth: number;
+    bbx: [number, number, number, number];
+    rows: string[];
+}
+
+// Reads "KEYWORD n n ..." values as integers.
+function parseNumbers(line: string, keyword: string, count: number): number[] {
+    const values = line.trim().split(/\s+/).slice(1, count + 1).map(Number);
+    if (values.length < count || values.some(value => isNaN(value))) {
+        throw new Error(`Invalid ${keyword} line: "${line.trim()}".`);
+    }
+    return values;
+}
+
+// Parses a BDF font into this tool's representation. The cell spans FONT_ASCENT + FONT_DESCENT rows
+// (grown if a glyph sticks out) with the baseline in between. Monospaced fonts (SPACING "M"/"C")
+// are imported as fixed-width cells of their advance width; proportional fonts are trimmed to their ink
+// like other dynamic-width glyphs, and empty glyphs keep their advance minus one pixel of spacing.
+export function parseBdfFont(text: string, encoding: ByteEncoding): ParsedFontData {
+    const lines = text.split(/\r?\n/);
+    if (!lines.some(line => line.startsWith('STARTFONT'))) {
+        throw new Error('This does not look like a BDF font (missing STARTFONT).');
+    }
+
+    let fontBoundingBox: number[] | null = null;
+    let fontAscent: number | null = null;
+    let fontDescent: number | null = null;
+    let spacing: string | null = null;
+    let defaultDWidth: number | null = null;
+
+    const glyphs: BdfGlyph[] = [];
+    let current: Partial<BdfGlyph> & { name?: string } | null = null;
+    let inBitmap = false;
+
+    for (const rawLine of lines) {
+        const line = rawLine.trim();
+        const keyword = line.split(/\s+/, 1)[0];
+
+        if (current) {
+            if (keyword === 'ENDCHAR') {
+                if (current.codePoint !== undefined && current.codePoint >= 0 && current.codePoint <= 0x10FFFF) {
+                    const dWidth = current.dWidth ?? defaultDWidth;
+                    if (dWidth === null || dWidth === undefined) {
+                        throw new Error(`Glyph "${current.name}" has no DWIDTH.`);
+                    }
+                    if (!current.bbx) {
+                        throw new Error(`Glyph "${current.name}" has no BBX.`);
+                    }
+                    glyphs.push({ codePoint: current.codePoint, dWidth, bbx: current.bbx, rows: current.rows ?? [] });
+                }
+                current = null;
+                inBitmap = false;
+            } else if (inBitmap) {
+                if (line) current.rows!.push(line);
+            } else if (keyword === 'ENCODING') {
+                // "ENCODING -1 n" marks a glyph without a standard encoding; n is an optional alternative.
+                const values = line.split(/\s+/).slice(1).map(Number);
+                current.codePoint = values[0] >= 0 ? values[0] : (values[1] ?? -1);
+            } else if (keyword === 'DWIDTH') {
+                current.dWidth = parseNumbers(line, keyword, 1)[0];
+            } else if (keyword === 'BBX') {
+                current.bbx = parseNumbers(line, keyword, 4) as [number, number, number, number];
+            } else if (keyword === 'BITMAP') {
+                current.rows = [];
+                inBitmap = true;
+            }
+            continue;
+        }
+
+        if (keyword === 'STARTCHAR') {
+            current = { name: line.substring(keyword.length).trim() };
+        } else if (keyword === 'FONTBOUNDINGBOX') {
+            fontBoundingBox = parseNumbers(line, keyword, 4);
+        } else if (keyword === 'FONT_ASCENT') {
+            fontAscent = parseNumbers(line, keyword, 1)[0];
+        } else if (keyword === 'FONT_DESCENT') {
+            fontDescent = parseNumbers(line, keyword, 1)[0];
+        } else if (keyword === 'SPACING') {
+            spacing = line.substring(keyword.length).trim().replace(/"/g, '').toUpperCase();
+        } else if (keyword === 'DWIDTH') {
+            defaultDWidth = parseNumbers(line, keyword, 1)[0];
+        }
+    }
+
+    if (glyphs.length === 0) {
+        throw new Error('No encoded glyphs were found in the BDF font.');
+    }
+
+    // Rows are measured from the baseline, negative upwards.
+    let top = fontAscent !== null ? -fontAscent : (fontBoundingBox ? -(fontBoundingBox[1] + fontBoundingBox[3]) : 0);
+    let bottom = fontDescent !== null ? fontDescent : (fontBoundingBox ? -fontBoundingBox[3] : 0);
+    glyphs.forEach(({ bbx: [w, h, , yoff] }) => {
+        if (w > 0 && h > 0) {
+            top = Math.min(top, -(yoff + h));
+            bottom = Math.max(bottom, -yoff);
+        }
+    });
+    const cellHeight = bottom - top;
+
+    if (cellHeight <= 0) {
+        throw new Error('Could not determine the font height from FONT_ASCENT/FONT_DESCENT or the glyph bounding boxes.');
+    }
+    if (cellHeight > MAX_CHAR_HEIGHT) {
+        throw new Error(`The glyphs span ${cellHeight} rows, which exceeds the maximum height of ${MAX_CHAR_HEIGHT}.`);
+    }
+
+    const isMonospaced = spacing !== null
+        ? spacing === 'M' || spacing === 'C'
+        : glyphs.every(glyph => glyph.dWidth === glyphs[0].dWidth);
+    const fixedWidth = Math.max(1, ...glyphs.map(glyph => glyph.dWidth));
+
+    const seen = new Set<number>();
+    const uniqueGlyphs = glyphs
+        .filter(glyph => !seen.has(glyph.codePoint) && seen.add(glyph.codePoint))
+        .sort((a, b) => a.codePoint - b.codePoint);
+
+    let maxWidth = 0;
+    const fontData: GeneratedChar[] = uniqueGlyphs.map(({ codePoint, dWidth, bbx: [w, h, xoff, yoff], rows }) => {
+        const firstRow = -(yoff + h) - top;
+        const inkWidth = Math.max(0, w);
+        let bitmap: boolean[][];
+        let originX: number;
+
+        if (isMonospaced) {
+            bitmap = Array.from({ length: cellHeight }, () => new Array(fixedWidth).fill(false));
+            originX = xoff;
+        } else if (inkWidth > 0 && h > 0) {
+            bitmap = Array.from({ length: cellHeight }, () => new Array(inkWidth).fill(false));
+            originX = 0;
+        } else {
+            bitmap = Array.from({ length: cellHeight }, () => new Array(Math.max(1, dWidth - 1)).fill(false));
+            originX = 0;
+        }
+
+        for (let row = 0; row < h && row < rows.length; row++) {
+            const y = firstRow + row;
+            for (let col = 0; col < inkWidth; col++) {
+                const nibble = parseInt(rows[row][col >> 2] ?? '0', 16);
+                const x = originX + col;
+                if (!isNaN(nibble) && (nibble >> (3 - (col & 3))) & 1 && x >= 0 && x < bitmap[0].length) {
+                    bitmap[y][x] = true;
+                }
+            }
+        }
+
+        maxWidth = Math.max(maxWidth, bitmap[0].length);
+        return {
+            char: String.fromCodePoint(codePoint),
+            codePoint,
+            bitmap,
+            bytes: bitmapToBytes(bitmap, cellHeight, encoding),
+        };
+    });
+
+    return {
+        fontData,
+        fontOptions: {
+            width: maxWidth > 0 ? maxWidth : 8,
+            height: cellHeight,
+            characterSet: fontData.map(d => d.char).join(''),
+            dynamicWidth: !isMonospaced,
+            charSpacing: 0,
+            ...encoding,
+        },
+    };
+}
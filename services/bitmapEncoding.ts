@@ -0,0 +1,175 @@
+import type { BitDepth, BitOrder, ByteEncoding, GeneratedChar, GlyphOrientation } from '../types';
+import { isSideways, orientPixels } from './bitmapUtils';
+
+export const MAX_CHAR_HEIGHT = 32;
+
+export const DEFAULT_BYTE_ENCODING: ByteEncoding = {
+    bitOrder: 'msb-first',
+    byteLayout: 'column-major',
+};
+
+export const DEFAULT_ORIENTATION: GlyphOrientation = {
+    rotation: 0,
+    mirrorX: false,
+    mirrorY: false,
+};
+
+// Number of bytes needed to store one column of a glyph with the given height.
+export function getBytesPerColumn(height: number): number {
+    return Math.max(1, Math.ceil(height / 8));
+}
+
+// Number of bytes needed to store one row of a glyph with the given width (row-major layout).
+export function getBytesPerRow(width: number): number {
+    return Math.ceil(width / 8);
+}
+
+// Total number of bytes one glyph of `width` x `height` pixels occupies in the given encoding.
+export function getGlyphByteCount(width: number, height: number, encoding: ByteEncoding): number {
+    return encoding.byteLayout === 'row-major'
+        ? height * getBytesPerRow(width)
+        : width * getBytesPerColumn(height);
+}
+
+// Returns the byte index and bit position that hold pixel (x, y).
+//
+// Column-major, MSB first: each column is a `height`-bit number with the MSB as the top row,
+// split big-endian into bytes. For heights up to 8 this is the classic one-byte-per-column layout.
+// Column-major, LSB first: row r of a column lives in bit (r % 8) of byte (r / 8).
+// Row-major: each row is padded to whole bytes, the leftmost pixel being the MSB or LSB of the first byte.
+// Page: byte (page * width + x) holds rows page*8 .. page*8+7 of column x.
+function locatePixel(x: number, y: number, width: number, height: number, encoding: ByteEncoding): [number, number] {
+    if (encoding.byteLayout === 'page') {
+        const byteIndex = Math.floor(y / 8) * width + x;
+        const bit = encoding.bitOrder === 'msb-first' ? 7 - (y % 8) : y % 8;
+        return [byteIndex, bit];
+    }
+    if (encoding.byteLayout === 'row-major') {
+        const byteIndex = y * getBytesPerRow(width) + Math.floor(x / 8);
+        const bit = encoding.bitOrder === 'msb-first' ? 7 - (x % 8) : x % 8;
+        return [byteIndex, bit];
+    }
+
+    const bytesPerColumn = getBytesPerColumn(height);
+    if (encoding.bitOrder === 'msb-first') {
+        const bitIndex = height - 1 - y;
+        return [x * bytesPerColumn + bytesPerColumn - 1 - Math.floor(bitIndex / 8), bitIndex % 8];
+    }
+    return [x * bytesPerColumn + Math.floor(y / 8), y % 8];
+}
+
+export function bitmapToBytes(bitmap: boolean[][], height: number, encoding: ByteEncoding): number[] {
+    const width = bitmap[0]?.length || 0;
+    const bytes: number[] = new Array(getGlyphByteCount(width, height, encoding)).fill(0);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (bitmap[y]?.[x]) {
+                const [byteIndex, bit] = locatePixel(x, y, width, height, encoding);
+                bytes[byteIndex] |= (1 << bit);
+            }
+        }
+    }
+    return bytes;
+}
+
+// Inverse of `bitmapToBytes`. `width` is in pixel columns, not bytes.
+export function bytesToBitmap(bytes: number[], width: number, height: number, encoding: ByteEncoding): boolean[][] {
+    const bitmap: boolean[][] = Array.from({ length: height }, () => new Array(width).fill(false));
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const [byteIndex, bit] = locatePixel(x, y, width, height, encoding);
+            if (((bytes[byteIndex] || 0) >> bit) & 1) {
+                bitmap[y][x] = true;
+            }
+        }
+    }
+    return bitmap;
+}
+
+// Human-readable description of the byte layout, used in generated code headers.
+export function describeByteEncoding(height: number, encoding: ByteEncoding & { bitDepth?: BitDepth }): string {
+    if (encoding.bitDepth && encoding.bitDepth > 1) {
+        const bits = encoding.bitOrder === 'msb-first' ? 'high' : 'low';
+        return `Each byte packs ${8 / encoding.bitDepth} pixels at ${encoding.bitDepth} bits per pixel, row by row, with the leftmost pixel in the ${bits} bits.`;
+    }
+    const firstBit = encoding.bitOrder === 'msb-first' ? 'MSB' : 'LSB';
+    if (encoding.byteLayout === 'row-major') {
+        return `Each row is padded to whole bytes (row-major), with the ${firstBit} as the leftmost pixel.`;
+    }
+    if (encoding.byteLayout === 'page') {
+        return `Each byte is a vertical 8-pixel page strip, with the ${firstBit} as its top row. All page-0 bytes of a glyph come before page 1.`;
+    }
+    const bytesPerColumn = getBytesPerColumn(height);
+    if (bytesPerColumn === 1) {
+        return `Each byte represents a column, with the ${firstBit} as the top row.`;
+    }
+    if (encoding.bitOrder === 'msb-first') {
+        return `Each column is ${bytesPerColumn} bytes (a ${height}-bit value, most significant byte first), with the MSB as the top row.`;
+    }
+    return `Each column is ${bytesPerColumn} bytes, top rows first, with the LSB of each byte as its top row.`;
+}
+
+// Describes a non-default orientation for generated code headers, or returns null for upright glyphs.
+export function describeOrientation(orientation: GlyphOrientation): string | null {
+    const steps: string[] = [];
+    if (orientation.mirrorX) steps.push('mirrored horizontally');
+    if (orientation.mirrorY) steps.push('mirrored vertically');
+    if (orientation.rotation !== 0) steps.push(`rotated ${orientation.rotation}° clockwise`);
+    if (steps.length === 0) return null;
+    const swapped = isSideways(orientation) ? ' Width and height are swapped in the packed data.' : '';
+    return `Glyphs are stored ${steps.join(', then ')}.${swapped}`;
+}
+
+// Highest intensity level representable at the given bit depth (1 for monochrome).
+export function getMaxLevel(bitDepth: BitDepth): number {
+    return (1 << bitDepth) - 1;
+}
+
+// Maps a 0-255 intensity to one of the levels available at the given bit depth.
+export function intensityToLevel(intensity: number, bitDepth: BitDepth): number {
+    const maxLevel = getMaxLevel(bitDepth);
+    return Math.max(0, Math.min(maxLevel, Math.round(intensity * maxLevel / 255)));
+}
+
+// Per-pixel intensities of a glyph. Monochrome glyphs map lit pixels to full intensity.
+export function getGlyphGrayscale(glyph: Pick<GeneratedChar, 'bitmap' | 'grayscale'>): number[][] {
+    return glyph.grayscale ?? glyph.bitmap.map(row => row.map(pixel => (pixel ? 255 : 0)));
+}
+
+// Packs grayscale pixels row by row, 8 / bitDepth pixels per byte (two nibbles per byte at 4bpp).
+// Each row is padded to whole bytes. 'msb-first' puts the leftmost pixel in the high bits.
+export function grayscaleToBytes(grayscale: number[][], bitDepth: BitDepth, bitOrder: BitOrder): number[] {
+    const pixelsPerByte = 8 / bitDepth;
+    const bytes: number[] = [];
+
+    for (const row of grayscale) {
+        for (let x = 0; x < row.length; x += pixelsPerByte) {
+            let byte = 0;
+            for (let i = 0; i < pixelsPerByte && x + i < row.length; i++) {
+                const slot = bitOrder === 'msb-first' ? pixelsPerByte - 1 - i : i;
+                byte |= intensityToLevel(row[x + i], bitDepth) << (slot * bitDepth);
+            }
+            bytes.push(byte);
+        }
+    }
+    return bytes;
+}
+
+// Encodes a glyph for export: monochrome glyphs follow the byte layout, grayscale glyphs are packed row-major.
+// With an orientation, the glyph is transformed first, so a sideways glyph is packed `width` pixels tall.
+export function encodeGlyph(
+    glyph: Pick<GeneratedChar, 'bitmap' | 'grayscale'>,
+    height: number,
+    options: ByteEncoding & { bitDepth: BitDepth; orientation?: GlyphOrientation },
+): number[] {
+    const { orientation } = options;
+    if (options.bitDepth === 1) {
+        if (!orientation) return bitmapToBytes(glyph.bitmap, height, options);
+        const packedHeight = isSideways(orientation) ? glyph.bitmap[0]?.length || 0 : height;
+        return bitmapToBytes(orientPixels(glyph.bitmap, orientation), packedHeight, options);
+    }
+    const grayscale = getGlyphGrayscale(glyph);
+    return grayscaleToBytes(orientation ? orientPixels(grayscale, orientation) : grayscale, options.bitDepth, options.bitOrder);
+}
@@ -0,0 +1,81 @@
+import type { GlyphOrientation } from '../types';
+
+export interface InkBounds {
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
+}
+
+// Bounding box of the lit pixels of a bitmap, or null if the bitmap is empty.
+export function getInkBounds(bitmap: boolean[][]): InkBounds | null {
+    let minX = Infinity, maxX = -1, minY = Infinity, maxY = -1;
+    bitmap.forEach((row, y) => {
+        row.forEach((pixel, x) => {
+            if (pixel) {
+                if (x < minX) minX = x;
+                if (x > maxX) maxX = x;
+                if (y < minY) minY = y;
+                if (y > maxY) maxY = y;
+            }
+        });
+    });
+    return maxX === -1 ? null : { minX, maxX, minY, maxY };
+}
+
+// Moves every row `shift` columns to the right (left when negative), keeping the width.
+// Columns shifted in are filled with `fill`; columns shifted past an edge are dropped.
+export function shiftColumns<T>(rows: T[][], shift: number, fill: T): T[][] {
+    return rows.map(row => row.map((_, x) => {
+        const source = x - shift;
+        return source >= 0 && source < row.length ? row[source] : fill;
+    }));
+}
+
+// Grows (weight > 0) or thins (weight < 0) strokes by one pixel per step, replacing each intensity with the
+// brightest or darkest of the pixel and its four neighbours. The edges of the cell do not erode the glyph.
+export function adjustStrokeWeight(pixels: number[][], weight: number): number[][] {
+    const pick = weight > 0 ? Math.max : Math.min;
+    let result = pixels;
+    for (let step = 0; step < Math.abs(weight); step++) {
+        const source = result;
+        result = source.map((row, y) => row.map((value, x) => pick(
+            value,
+            source[y - 1]?.[x] ?? value,
+            source[y + 1]?.[x] ?? value,
+            row[x - 1] ?? value,
+            row[x + 1] ?? value,
+        )));
+    }
+    return result;
+}
+
+// Whether the orientation turns glyphs on their side, swapping their width and height.
+export function isSideways(orientation: GlyphOrientation): boolean {
+    return orientation.rotation === 90 || orientation.rotation === 270;
+}
+
+function rotateClockwise<T>(rows: T[][]): T[][] {
+    const height = rows.length;
+    const width = rows[0]?.length || 0;
+    return Array.from({ length: width }, (_, y) => Array.from({ length: height }, (_, x) => rows[height - 1 - x][y]));
+}
+
+function mirror<T>(rows: T[][], orientation: GlyphOrientation): T[][] {
+    const mirrored = orientation.mirrorX ? rows.map(row => [...row].reverse()) : rows;
+    return orientation.mirrorY ? [...mirrored].reverse() : mirrored;
+}
+
+// Transforms upright pixels into the orientation they are stored in: mirrored first, then rotated clockwise.
+export function orientPixels<T>(rows: T[][], orientation: GlyphOrientation): T[][] {
+    let result = mirror(rows, orientation);
+    for (let turn = 0; turn < orientation.rotation / 90; turn++) result = rotateClockwise(result);
+    return result;
+}
+
+// Inverse of `orientPixels`: turns stored pixels back upright.
+export function unorientPixels<T>(rows: T[][], orientation: GlyphOrientation): T[][] {
+    let result = rows;
+    for (let turn = 0; turn < (360 - orientation.rotation) % 360 / 90; turn++) result = rotateClockwise(result);
+    return mirror(result, orientation);
+}
@@ -0,0 +1,78 @@
+import type { CustomFont } from '../types';
+import { GENERIC_FONT_FAMILIES } from './fontGenerator';
+
+const SUPPORTED_EXTENSIONS = ['ttf', 'otf', 'woff', 'woff2'];
+
+// Fonts registered with the document, by family. The generation worker has its own font set and is sent these.
+const registeredFonts = new Map<string, CustomFont>();
+const registeredFaces = new Map<string, FontFace>();
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    // Convert in chunks; String.fromCharCode cannot take a whole font file as arguments at once.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+}
+
+// Derives a family name from the file name, kept to letters, digits and spaces so it reads well in the font list
+// and in generated identifiers. A name that is already taken gets a suffix, so the upload cannot shadow
+// a built-in, generic or previously uploaded family.
+function getFamilyName(fileName: string, reservedFamilies: string[]): string {
+    const baseName = fileName.replace(/\.[^.]+$/, '').replace(/[^a-zA-Z0-9]+/g, ' ').trim();
+    const family = /^[a-zA-Z]/.test(baseName) ? baseName : `Font ${baseName}`.trim();
+    // CSS family names match case-insensitively.
+    const reserved = new Set(reservedFamilies.map(name => name.toLowerCase()));
+    let uniqueFamily = family;
+    for (let suffix = 1; reserved.has(uniqueFamily.toLowerCase()); suffix++) {
+        uniqueFamily = `${family} Custom${suffix > 1 ? ` ${suffix}` : ''}`;
+    }
+    return uniqueFamily;
+}
+
+export function getRegisteredCustomFonts(): CustomFont[] {
+    return [...registeredFonts.values()];
+}
+
+// Registers the font with the document so canvas text rendering can use it, replacing a font registered
+// under the same family before.
+export async function registerCustomFont(font: CustomFont): Promise<void> {
+    const face = new FontFace(font.family, base64ToArrayBuffer(font.data));
+    try {
+        await face.load();
+    } catch {
+        throw new Error(`The font file "${font.fileName}" could not be loaded. Make sure it is a valid TTF, OTF or WOFF font.`);
+    }
+    const previousFace = registeredFaces.get(font.family);
+    if (previousFace) document.fonts.delete(previousFace);
+    document.fonts.add(face);
+    registeredFaces.set(font.family, face);
+    registeredFonts.set(font.family, font);
+}
+
+// Reads a local font file and registers it as a new family. Besides reservedFamilies, the name avoids the generic
+// families and the fonts uploaded so far.
+export async function loadCustomFontFile(file: File, reservedFamilies: string[]): Promise<CustomFont> {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+        throw new Error(`Unsupported font file "${file.name}". Use a .ttf, .otf, .woff or .woff2 file.`);
+    }
+    const font: CustomFont = {
+        family: getFamilyName(file.name, [...reservedFamilies, ...GENERIC_FONT_FAMILIES, ...registeredFonts.keys()]),
+        fileName: file.name,
+        data: arrayBufferToBase64(await file.arrayBuffer()),
+    };
+    await registerCustomFont(font);
+    return font;
+}
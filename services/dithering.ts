@@ -0,0 +1,52 @@
+import type { DitherAlgorithm } from '../types';
+
+// Error diffusion kernels as [dx, dy, weight]. Atkinson only spreads 6/8 of the error,
+// which keeps small glyphs crisper than Floyd-Steinberg.
+const DIFFUSION_KERNELS: Partial<Record<DitherAlgorithm, [number, number, number][]>> = {
+    'floyd-steinberg': [[1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16]],
+    'atkinson': [[1, 0, 1 / 8], [2, 0, 1 / 8], [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8], [0, 2, 1 / 8]],
+    'sierra-lite': [[1, 0, 2 / 4], [-1, 1, 1 / 4], [0, 1, 1 / 4]],
+};
+
+const BAYER_MATRICES: Partial<Record<DitherAlgorithm, number[][]>> = {
+    'bayer-2x2': [[0, 2], [3, 1]],
+    'bayer-4x4': [[0, 8, 2, 10], [12, 4, 14, 6], [3, 11, 1, 9], [15, 7, 13, 5]],
+};
+
+// Dithers 0-255 intensities down to the output levels. `quantize` snaps an intensity to the nearest
+// output intensity, and `step` is the distance between two output levels, which scales the ordered
+// dither pattern. 'none' quantizes each pixel on its own.
+export function ditherGrayscale(grayscale: number[][], algorithm: DitherAlgorithm, quantize: (intensity: number) => number, step: number): number[][] {
+    const height = grayscale.length;
+    const width = grayscale[0]?.length || 0;
+
+    const matrix = BAYER_MATRICES[algorithm];
+    if (matrix) {
+        const size = matrix.length;
+        return grayscale.map((row, y) => row.map((value, x) =>
+            quantize(value + ((matrix[y % size][x % size] + 0.5) / (size * size) - 0.5) * step)
+        ));
+    }
+
+    const kernel = DIFFUSION_KERNELS[algorithm] ?? [];
+    const work = grayscale.map(row => [...row]);
+    const result: number[][] = Array.from({ length: height }, () => new Array(width).fill(0));
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const oldPixel = work[y][x];
+            const newPixel = quantize(oldPixel);
+            result[y][x] = newPixel;
+            const quantError = oldPixel - newPixel;
+
+            for (const [dx, dy, weight] of kernel) {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (nx >= 0 && nx < width && ny < height) {
+                    work[ny][nx] += quantError * weight;
+                }
+            }
+        }
+    }
+    return result;
+}
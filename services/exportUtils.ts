@@ -0,0 +1,21 @@
+import type { FontGeneratorOptions } from '../types';
+
+// C-identifier-safe name of a font family, shared by all of its sizes.
+export function getFamilyName({ fontFamily }: Pick<FontGeneratorOptions, 'fontFamily'>): string {
+    return `font_${fontFamily.replace(/\s+/g, '_').replace(/[^a-zA-Z0-9_]/g, '')}`;
+}
+
+// C-identifier-safe name used for arrays, structs and downloaded files.
+export function getFontName({ fontFamily, width, height }: Pick<FontGeneratorOptions, 'fontFamily' | 'width' | 'height'>): string {
+    return `${getFamilyName({ fontFamily })}_${width}x${height}`;
+}
+
+// Saves a blob through a temporary download link.
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,349 @@
+import type { GeneratedChar, FontGeneratorOptions } from '../types';
+import { encodeGlyph, describeByteEncoding, describeOrientation, getBytesPerColumn, getBytesPerRow } from './bitmapEncoding';
+import { isSideways } from './bitmapUtils';
+import { generateGfxFont } from './gfxFont';
+import { generateBdfFont } from './bdfFont';
+import { generatePsfFont, type PsfVersion } from './psfFont';
+
+export type OutputFormat = 'c' | 'python' | 'hex' | 'gfx' | 'bdf' | 'psf1' | 'psf2';
+
+export const FILE_EXTENSIONS: Record<OutputFormat, string> = {
+    c: 'h',
+    python: 'py',
+    hex: 'txt',
+    gfx: 'h',
+    bdf: 'bdf',
+    psf1: 'psf',
+    psf2: 'psf',
+};
+
+// Binary formats are previewed as a hex dump and downloaded as raw bytes.
+export const PSF_VERSIONS: Partial<Record<OutputFormat, PsfVersion>> = {
+    psf1: 1,
+    psf2: 2,
+};
+
+// Classic 16-bytes-per-line hex dump with offsets, used to preview binary output.
+function formatHexDump(bytes: Uint8Array): string {
+    const lines: string[] = [];
+    for (let offset = 0; offset < bytes.length; offset += 16) {
+        const chunk = Array.from(bytes.subarray(offset, offset + 16));
+        const hex = chunk.map(b => b.toString(16).padStart(2, '0').toUpperCase()).join(' ');
+        lines.push(`${offset.toString(16).padStart(8, '0').toUpperCase()}  ${hex}`);
+    }
+    return lines.join('\n');
+}
+
+// Bytes one dynamic-width glyph takes, as a formula of its `width`. Follows the packed size `encodeGlyph` uses,
+// which is `height` pixels wide and `width` pixels tall for 90/270 degree orientations.
+function describeGlyphByteCount(height: number, options: FontGeneratorOptions): string {
+    const sideways = isSideways(options.orientation);
+    if (options.bitDepth > 1) {
+        return sideways
+            ? `width * ${Math.ceil(height * options.bitDepth / 8)}`
+            : `${height} * ceil(width * ${options.bitDepth} / 8)`;
+    }
+    if (options.byteLayout === 'row-major') {
+        return sideways ? `width * ${getBytesPerRow(height)}` : `${height} * ceil(width / 8)`;
+    }
+    return sideways ? `${height} * ceil(width / 8)` : `width * ${getBytesPerColumn(height)}`;
+}
+
+// Builds the text output for a font in the given format. PSF fonts are binary and come back as a hex dump;
+// use `generatePsfFont` for the file itself.
+export function generateFontCode(fontData: GeneratedChar[], options: FontGeneratorOptions, outputFormat: OutputFormat, fontName: string): string {
+    const { fontFamily, width, height, charSpacing, characterSet, dynamicWidth } = options;
+
+    if (outputFormat === 'gfx') {
+        return generateGfxFont(fontData, options, fontName);
+    }
+    if (outputFormat === 'bdf') {
+        return generateBdfFont(fontData, options, fontName);
+    }
+    if (PSF_VERSIONS[outputFormat]) {
+        try {
+            const binary = generatePsfFont(fontData, options, PSF_VERSIONS[outputFormat]!);
+            const glyphWidth = Math.max(1, ...fontData.map(charData => charData.bitmap[0]?.length || 0));
+            return `// PSF${PSF_VERSIONS[outputFormat]} console font, ${fontData.length} glyphs of ${glyphWidth}x${height}, ${binary.length} bytes with Unicode table.\n`
+                + `// Use Download to save the binary file, then load it with: setfont ${fontName}.psf\n`
+                + formatHexDump(binary);
+        } catch (e) {
+            return `// ${e instanceof Error ? e.message : 'Could not generate the PSF font.'}`;
+        }
+    }
+
+    // Sideways orientations pack each glyph as tall as it is wide.
+    const sideways = isSideways(options.orientation);
+    const packedHeight = sideways ? Math.max(0, ...fontData.map(charData => charData.bitmap[0]?.length || 0)) : height;
+    const orientationNote = describeOrientation(options.orientation);
+    const layoutDescription = describeByteEncoding(packedHeight, options);
+    const columnLayoutComment = `// ${layoutDescription}\n` + (orientationNote ? `// ${orientationNote}\n` : '');
+    // Encode from the bitmaps so the output always follows the current byte encoding setting.
+    const charBytes = fontData.map(charData => encodeGlyph(charData, height, options));
+
+    // In page layout, each page of a glyph is emitted on its own line. Sideways dynamic-width glyphs
+    // have a different page count each, so they stay on one line.
+    const pageCount = options.byteLayout === 'page' && options.bitDepth === 1 && !(sideways && dynamicWidth) ? getBytesPerColumn(packedHeight) : 1;
+    const splitIntoPages = (bytes: number[]): number[][] => {
+        if (pageCount <= 1 || bytes.length === 0) return [bytes];
+        const pageSize = bytes.length / pageCount;
+        return Array.from({ length: pageCount }, (_, page) => bytes.slice(page * pageSize, (page + 1) * pageSize));
+    };
+
+    // --- Generate Character Mapping Guide ---
+    const blocks: {startCp: number, endCp: number, startIndex: number}[] = [];
+    if (fontData.length > 0) {
+        let currentBlock = {
+            startCp: fontData[0].codePoint,
+            endCp: fontData[0].codePoint,
+            startIndex: 0,
+        };
+        for (let i = 1; i < fontData.length; i++) {
+            if (fontData[i].codePoint === fontData[i-1].codePoint + 1) {
+                currentBlock.endCp = fontData[i].codePoint;
+            } else {
+                blocks.push(currentBlock);
+                currentBlock = {
+                    startCp: fontData[i].codePoint,
+                    endCp: fontData[i].codePoint,
+                    startIndex: i,
+                };
+            }
+        }
+        blocks.push(currentBlock);
+    }
+
+    const mappingGuideLines: string[] = [];
+    if (blocks.length > 0) {
+        mappingGuideLines.push('Character Mapping Guide');
+        mappingGuideLines.push('-----------------------');
+        mappingGuideLines.push("To find a character's index, use its UTF-8 code point and the formula below.");
+        mappingGuideLines.push('');
+        
+        blocks.forEach(block => {
+            const offset = block.startCp - block.startIndex;
+            const startHex = `0x${block.startCp.toString(16).toUpperCase()}`;
+            const endHex = `0x${block.endCp.toString(16).toUpperCase()}`;
+            const offsetHex = `0x${offset.toString(16).toUpperCase()}`;
+            const charCount = block.endCp - block.startCp + 1;
+            
+            mappingGuideLines.push(`Range: [${startHex} - ${endHex}] (${charCount} chars) --> index = utf8_code - ${offsetHex}`);
+        });
+    }
+
+    const formatMappingGuide = (lang: 'c' | 'python') => {
+        if (mappingGuideLines.length === 0) return '';
+        if (lang === 'c') {
+            return '/*\n' + mappingGuideLines.map(line => ` * ${line}`).join('\n') + '\n */\n\n';
+        } else { // python
+            return mappingGuideLines.map(line => `# ${line}`).join('\n') + '\n\n';
+        }
+    };
+
+    
+    if (dynamicWidth) {
+        let baseHeaderC = `// Font: ${fontFamily}, Size: Up to ${width}x${height} (Dynamic Width)\n`;
+        baseHeaderC += `// Characters: "${characterSet.replace(/\n/g, "\\n")}"\n`;
+        baseHeaderC += `// To render a character, get its width from ${fontName}_widths[],\n`;
+        baseHeaderC += `// its offset from ${fontName}_offsets[], and then read ${describeGlyphByteCount(height, options)} byte(s)\n`;
+        baseHeaderC += `// from ${fontName}_data[] starting at that offset.\n`;
+        baseHeaderC += columnLayoutComment;
+
+        const widths: number[] = [];
+        const offsets: number[] = [];
+        const font_data: number[] = [];
+        let currentOffset = 0;
+
+        fontData.forEach((charData, index) => {
+            const charWidth = charData.bitmap[0]?.length || 0;
+            widths.push(charWidth);
+            offsets.push(currentOffset);
+            font_data.push(...charBytes[index]);
+            currentOffset += charBytes[index].length;
+        });
+        
+        const formatHex = (b: number) => `0x${b.toString(16).padStart(2, '0').toUpperCase()}`;
+
+        const ranges: { start: GeneratedChar; end: GeneratedChar; startIndex: number; endIndex: number }[] = [];
+        if (fontData.length > 0) {
+            let currentRange = {
+            start: fontData[0],
+            end: fontData[0],
+            startIndex: 0,
+            endIndex: 0
+            };
+            for (let i = 1; i < fontData.length; i++) {
+            if (fontData[i].codePoint === fontData[i - 1].codePoint + 1) {
+                currentRange.end = fontData[i];
+                currentRange.endIndex = i;
+            } else {
+                ranges.push(currentRange);
+                currentRange = {
+                start: fontData[i],
+                end: fontData[i],
+                startIndex: i,
+                endIndex: i
+                };
+            }
+            }
+            ranges.push(currentRange);
+        }
+
+        switch (outputFormat) {
+            case 'c': {
+                let cCode = formatMappingGuide('c') + baseHeaderC + `\n`;
+                const CHUNK_SIZE = 16;
+        
+                const formatRangeComment = (range: typeof ranges[0]) => {
+                    const start = range.start;
+                    const end = range.end;
+                    const escChar = (c: string) => c.replace(/'/g, "\\'").replace(/\\/g, "\\\\");
+                    if (start.codePoint === end.codePoint) {
+                        return `  // Char '${escChar(start.char)}' (Code: ${start.codePoint})\n`;
+                    }
+                    return `  // Characters '${escChar(start.char)}' (Code: ${start.codePoint}) to '${escChar(end.char)}' (Code: ${end.codePoint})\n`;
+                };
+        
+                cCode += `// Width of each character in pixels (columns)\n`;
+                cCode += `const unsigned char ${fontName}_widths[] = {\n`;
+                if (ranges.length === 0 && widths.length > 0) {
+                    cCode += `  ${widths.join(', ')}\n`;
+                } else if (ranges.length > 0) {
+                    ranges.forEach(range => {
+                        cCode += formatRangeComment(range);
+                        const rangeValues = widths.slice(range.startIndex, range.endIndex + 1);
+                        for (let i = 0; i < rangeValues.length; i += CHUNK_SIZE) {
+                            cCode += '  ' + rangeValues.slice(i, i + CHUNK_SIZE).join(', ') + ',\n';
+                        }
+                    });
+                    cCode = cCode.slice(0, -2) + '\n';
+                }
+                cCode += `};\n\n`;
+        
+                cCode += `// Start address of each character in the font data array\n`;
+                cCode += `const unsigned int ${fontName}_offsets[] = {\n`;
+                if (ranges.length === 0 && offsets.length > 0) {
+                    cCode += `  ${offsets.join(', ')}\n`;
+                } else if (ranges.length > 0) {
+                  ranges.forEach(range => {
+                      cCode += formatRangeComment(range);
+                      const rangeValues = offsets.slice(range.startIndex, range.endIndex + 1);
+                      for (let i = 0; i < rangeValues.length; i += CHUNK_SIZE) {
+                          cCode += '  ' + rangeValues.slice(i, i + CHUNK_SIZE).join(', ') + ',\n';
+                      }
+                  });
+                  cCode = cCode.slice(0, -2) + '\n';
+                }
+                cCode += `};\n\n`;
+                
+                cCode += `// Font data for all characters concatenated. ${layoutDescription}\n`;
+                cCode += `const unsigned char ${fontName}_data[] = {\n`;
+                if (font_data.length > 0) {
+                  for (let i = 0; i < font_data.length; i += CHUNK_SIZE) {
+                    cCode += '  ' + font_data.slice(i, i + CHUNK_SIZE).map(formatHex).join(', ') + ',\n';
+                  }
+                  cCode = cCode.slice(0, -2) + '\n';
+                }
+                cCode += `};\n`;
+                return cCode;
+            }
+
+            case 'python': {
+                let pyCode = formatMappingGuide('python') + baseHeaderC.replace(/\/\//g, '#') + `\n`;
+                const PY_CHUNK_SIZE = 16;
+        
+                const formatRangeComment = (range: typeof ranges[0]) => {
+                    const start = range.start;
+                    const end = range.end;
+                    const escChar = (c: string) => c.replace(/'/g, "\\'").replace(/\\/g, "\\\\");
+                    if (start.codePoint === end.codePoint) {
+                        return `    # Char '${escChar(start.char)}' (Code: ${start.codePoint})\n`;
+                    }
+                    return `    # Characters '${escChar(start.char)}' (Code: ${start.codePoint}) to '${escChar(end.char)}' (Code: ${end.codePoint})\n`;
+                };
+
+                pyCode += `# Width of each character in pixels (columns)\n`;
+                pyCode += `${fontName}_widths = [\n`;
+                if (ranges.length === 0 && widths.length > 0) {
+                     pyCode += `    ${widths.join(', ')}\n`;
+                } else if (ranges.length > 0) {
+                    ranges.forEach(range => {
+                        pyCode += formatRangeComment(range);
+                        const rangeValues = widths.slice(range.startIndex, range.endIndex + 1);
+                        for (let i = 0; i < rangeValues.length; i += PY_CHUNK_SIZE) {
+                            pyCode += '    ' + rangeValues.slice(i, i + PY_CHUNK_SIZE).join(', ') + ',\n';
+                        }
+                    });
+                    pyCode = pyCode.slice(0, -2) + '\n';
+                }
+                pyCode += `]\n\n`;
+
+                pyCode += `# Start address of each character in the font data array\n`;
+                pyCode += `${fontName}_offsets = [\n`;
+                if (ranges.length === 0 && offsets.length > 0) {
+                    pyCode += `    ${offsets.join(', ')}\n`;
+                } else if (ranges.length > 0) {
+                    ranges.forEach(range => {
+                        pyCode += formatRangeComment(range);
+                        const rangeValues = offsets.slice(range.startIndex, range.endIndex + 1);
+                        for (let i = 0; i < rangeValues.length; i += PY_CHUNK_SIZE) {
+                            pyCode += '    ' + rangeValues.slice(i, i + PY_CHUNK_SIZE).join(', ') + ',\n';
+                        }
+                    });
+                    pyCode = pyCode.slice(0, -2) + '\n';
+                }
+                pyCode += `]\n\n`;
+
+                pyCode += `# Font data for all characters concatenated. ${layoutDescription}\n`;
+                pyCode += `${fontName}_data = [\n`;
+                if (font_data.length > 0) {
+                    for (let i = 0; i < font_data.length; i += PY_CHUNK_SIZE) {
+                        pyCode += '    ' + font_data.slice(i, i + PY_CHUNK_SIZE).map(b => `0x${b.toString(16).padStart(2, '0')}`).join(', ') + ',\n';
+                    }
+                    pyCode = pyCode.slice(0, -2) + '\n';
+                }
+                pyCode += `]\n`;
+                return pyCode;
+            }
+            
+            case 'hex':
+                return `--- WIDTHS ---\n${widths.map(w => w.toString(16).padStart(2, '0').toUpperCase()).join(' ')}\n\n--- OFFSETS ---\n${offsets.map(o => o.toString(16).padStart(4, '0').toUpperCase()).join(' ')}\n\n--- DATA ---\n${font_data.map(b => b.toString(16).padStart(2, '0').toUpperCase()).join(' ')}`;
+        }
+    }
+
+
+    const baseHeaderC = `// Font: ${fontFamily}, Size: ${width}x${height} (+${charSpacing}px spacing)\n// Characters: "${characterSet.replace(/\n/g, "\\n")}"\n`;
+
+    switch (outputFormat) {
+        case 'c':
+            let cCode = formatMappingGuide('c') + baseHeaderC + columnLayoutComment;
+            cCode += `const unsigned char ${fontName}[] = {\n`;
+            fontData.forEach((charData, index) => {
+                cCode += `  /* Char '${charData.char.replace(/'/g, "\\'").replace(/\\/g, "\\\\")}' (Code: ${charData.codePoint}) */\n`;
+                splitIntoPages(charBytes[index]).forEach(pageBytes => {
+                    const hexBytes = pageBytes.map(b => `0x${b.toString(16).padStart(2, '0').toUpperCase()}`).join(', ');
+                    cCode += `  ${hexBytes},\n`;
+                });
+            });
+            cCode += `};\n`;
+            return cCode;
+
+        case 'python':
+            let pyCode = formatMappingGuide('python') + (baseHeaderC + columnLayoutComment).replace(/\/\//g, '#');
+            pyCode += `${fontName} = [\n`;
+            fontData.forEach((charData, index) => {
+                pyCode += `  # Char '${charData.char.replace(/'/g, "\\'").replace(/\\/g, "\\\\")}' (Code: ${charData.codePoint})\n`;
+                splitIntoPages(charBytes[index]).forEach(pageBytes => {
+                    const hexBytes = pageBytes.map(b => `0x${b.toString(16).padStart(2, '0')}`).join(', ');
+                    pyCode += `  ${hexBytes},\n`;
+                });
+            });
+            pyCode += `]\n`;
+            return pyCode;
+        
+        case 'hex':
+            return charBytes.map(bytes => 
+                bytes.map(b => `${b.toString(16).padStart(2, '0').toUpperCase()}`).join(' ')
+            ).join('\n');
+    }
+}
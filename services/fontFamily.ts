@@ -0,0 +1,129 @@
+import type { FontGeneratorOptions, GeneratedChar, SizePreset } from '../types';
+import { encodeGlyph, MAX_CHAR_HEIGHT } from './bitmapEncoding';
+import { generateFontData, type GenerationCallbacks } from './fontWorkerClient';
+import { generateFontCode, type OutputFormat } from './fontExport';
+import { getFamilyName, getFontName } from './exportUtils';
+
+export const DEFAULT_SIZE_PRESETS: SizePreset[] = [
+    { width: 5, height: 7, fontSizeAdjustment: 0 },
+    { width: 6, height: 8, fontSizeAdjustment: 0 },
+    { width: 8, height: 8, fontSizeAdjustment: 0 },
+];
+
+// Formats that can hold a whole family in one header, followed by a table of its sizes.
+export const FAMILY_HEADER_FORMATS: OutputFormat[] = ['c', 'gfx'];
+
+// One generated size of a font family.
+export interface FamilyMember {
+    preset: SizePreset;
+    options: FontGeneratorOptions;
+    fontData: GeneratedChar[];
+}
+
+export function getPresetOptions(options: FontGeneratorOptions, preset: SizePreset): FontGeneratorOptions {
+    return { ...options, width: preset.width, height: preset.height, fontSizeAdjustment: preset.fontSizeAdjustment };
+}
+
+// Renders the character set once per preset, one size after the other. Progress counts characters across all sizes.
+export async function generateFontFamily(options: FontGeneratorOptions, presets: SizePreset[], callbacks: GenerationCallbacks = {}): Promise<FamilyMember[]> {
+    const { onProgress, signal } = callbacks;
+    if (presets.length === 0) {
+        throw new Error('Add at least one size to generate.');
+    }
+    if (!options.characterSet) {
+        throw new Error('Character set cannot be empty.');
+    }
+    const seen = new Set<string>();
+    for (const { width, height, fontSizeAdjustment } of presets) {
+        if (width <= 0 || height <= 0) {
+            throw new Error('Width and height must be positive numbers.');
+        }
+        if (height > MAX_CHAR_HEIGHT) {
+            throw new Error(`Height cannot be greater than ${MAX_CHAR_HEIGHT}.`);
+        }
+        const key = `${width}x${height}:${fontSizeAdjustment}`;
+        if (seen.has(key)) {
+            throw new Error(`The size ${width}x${height} with adjustment ${fontSizeAdjustment} is listed more than once.`);
+        }
+        seen.add(key);
+    }
+
+    const members: FamilyMember[] = [];
+    for (const [index, preset] of presets.entries()) {
+        const presetOptions = getPresetOptions(options, preset);
+        const fontData = await generateFontData(presetOptions, {
+            signal,
+            onProgress: onProgress && ((done, total) => onProgress(index * total + done, presets.length * total)),
+        });
+        members.push({ preset, options: presetOptions, fontData });
+    }
+    return members;
+}
+
+// Array names of the members. Sizes that share a cell size get their size adjustment appended ("_p1", "_m2").
+export function getFamilyFontNames(members: FamilyMember[]): string[] {
+    const names = members.map(member => getFontName(member.options));
+    return names.map((name, index) => {
+        if (names.indexOf(name) === names.lastIndexOf(name)) return name;
+        const adjustment = members[index].preset.fontSizeAdjustment;
+        return `${name}_${adjustment < 0 ? 'm' : 'p'}${Math.abs(adjustment)}`;
+    });
+}
+
+// One header with every size of the family, followed by a table of the sizes in preset order so
+// firmware can pick one at run time.
+export function generateFamilyHeader(members: FamilyMember[], outputFormat: OutputFormat): string {
+    if (!FAMILY_HEADER_FORMATS.includes(outputFormat)) {
+        throw new Error('A family header can only be generated as a C array or an Adafruit GFX font.');
+    }
+    if (members.length === 0) {
+        throw new Error('There are no generated sizes to export.');
+    }
+    const names = getFamilyFontNames(members);
+    const familyName = `${getFamilyName(members[0].options)}_family`;
+    const sizes = members.map(({ options }) => `${options.width}x${options.height}`);
+
+    let code = `// Font family: ${members[0].options.fontFamily}, ${members.length} sizes (${sizes.join(', ')})\n`;
+    code += `// Each size is defined below, followed by ${familyName}[], which lists them in this order.\n\n`;
+    code += members.map((member, index) => generateFontCode(member.fontData, member.options, outputFormat, names[index])).join('\n');
+    code += '\n';
+
+    if (outputFormat === 'gfx') {
+        code += `const GFXfont *const ${familyName}[] = {\n`;
+        code += names.map((name, index) => `  &${name}, // ${sizes[index]}`).join('\n') + '\n';
+        code += `};\n`;
+        return code;
+    }
+
+    // All sizes share the other options, so either every size has dynamic width or none does.
+    if (members[0].options.dynamicWidth) {
+        code += `typedef struct {\n`;
+        code += `  const unsigned char *widths;\n`;
+        code += `  const unsigned int *offsets;\n`;
+        code += `  const unsigned char *data;\n`;
+        code += `  unsigned char max_width;\n`;
+        code += `  unsigned char height;\n`;
+        code += `} ${familyName}_t;\n\n`;
+        code += `const ${familyName}_t ${familyName}[] = {\n`;
+        code += members.map(({ options }, index) =>
+            `  { ${names[index]}_widths, ${names[index]}_offsets, ${names[index]}_data, ${options.width}, ${options.height} },`
+        ).join('\n').slice(0, -1) + '\n';
+        code += `};\n`;
+        return code;
+    }
+
+    code += `typedef struct {\n`;
+    code += `  const unsigned char *data;\n`;
+    code += `  unsigned char width;   // Glyph width in pixels, without spacing\n`;
+    code += `  unsigned char height;\n`;
+    code += `  unsigned char spacing; // Pixels between glyphs\n`;
+    code += `  unsigned int bytes_per_char;\n`;
+    code += `} ${familyName}_t;\n\n`;
+    code += `const ${familyName}_t ${familyName}[] = {\n`;
+    code += members.map(({ options, fontData }, index) => {
+        const bytesPerChar = fontData.length > 0 ? encodeGlyph(fontData[0], options.height, options).length : 0;
+        return `  { ${names[index]}, ${options.width}, ${options.height}, ${options.charSpacing}, ${bytesPerChar} },`;
+    }).join('\n').slice(0, -1) + '\n';
+    code += `};\n`;
+    return code;
+}
@@ -1,5 +1,123 @@
 
-import type { GeneratedChar, FontGeneratorOptions } from '../types';
+import type { GeneratedChar, FontGeneratorOptions, GlyphRenderOverride, BitDepth } from '../types';
+import { encodeGlyph, getMaxLevel, intensityToLevel } from './bitmapEncoding';
+import { ditherGrayscale } from './dithering';
+import { getInkBounds, shiftColumns, adjustStrokeWeight } from './bitmapUtils';
+import { parseUnicodeRanges, isInRanges, type CodePointRange } from './unicodeRanges';
+
+type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const GENERIC_FONT_FAMILIES = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui'];
+
+// Canvases are reused across characters and calls; allocating a large supersampling canvas per glyph is slow.
+const renderContexts = new Map<string, RenderContext>();
+
+// Returns a cleared, reusable 2D context of the given size. OffscreenCanvas is used when available,
+// which is also what makes this module usable inside a Web Worker.
+function getRenderContext(slot: 'glyph' | 'super' | 'probe-serif' | 'probe-monospace', width: number, height: number): RenderContext {
+    let ctx = renderContexts.get(slot);
+    if (!ctx) {
+        const canvas = typeof OffscreenCanvas !== 'undefined'
+            ? new OffscreenCanvas(width, height)
+            : document.createElement('canvas');
+        const context = canvas.getContext('2d', { willReadFrequently: true }) as RenderContext | null;
+        if (!context) throw new Error('Could not get canvas context');
+        ctx = context;
+        renderContexts.set(slot, ctx);
+    }
+    if (ctx.canvas.width !== width || ctx.canvas.height !== height) {
+        ctx.canvas.width = width;
+        ctx.canvas.height = height;
+    }
+    ctx.clearRect(0, 0, width, height);
+    return ctx;
+}
+
+// Baseline position in pixels from the top of the cell for 'baseline' alignment. Without an explicit row,
+// the font's ascent + descent box is centred in the cell, which keeps descenders inside for typical fonts.
+function getBaselineY(ctx: RenderContext, height: number, baselineRow: number, scale: number): number {
+    if (baselineRow >= 0) {
+        return (baselineRow + 1) * scale;
+    }
+    const metrics = ctx.measureText('H');
+    const ascent = metrics.fontBoundingBoxAscent ?? metrics.actualBoundingBoxAscent;
+    const descent = metrics.fontBoundingBoxDescent ?? 0;
+    return Math.round(((height * scale) - (ascent + descent)) / 2 + ascent);
+}
+
+// The row `baselineRow: -1` resolves to for the given options, for display in the UI.
+export function getFontBaselineRow(options: FontGeneratorOptions): number {
+    const { fontFamily, fontWeight, height, fontSizeAdjustment } = options;
+    const ctx = getRenderContext('glyph', 1, 1);
+    ctx.font = `${fontWeight} ${height + fontSizeAdjustment}px ${toCssFontFamily(fontFamily)}`;
+    return Math.max(0, Math.min(height - 1, getBaselineY(ctx, height, -1, 1) - 1));
+}
+
+// Font family as used in a CSS font shorthand. Names are quoted so families such as "Press Start 2P"
+// parse correctly, except the generic families, which must stay unquoted keywords.
+export function toCssFontFamily(fontFamily: string): string {
+    return GENERIC_FONT_FAMILIES.includes(fontFamily.toLowerCase()) ? fontFamily : `"${fontFamily.replace(/"/g, '')}"`;
+}
+
+// CSS font shorthands for the primary and fallback families, to load them before rendering.
+export function getFontShorthands(options: FontGeneratorOptions): string[] {
+    const { fontFamily, fallbackFonts, fontWeight, height, fontSizeAdjustment } = options;
+    return [fontFamily, ...fallbackFonts.map(fallback => fallback.fontFamily)]
+        .map(family => `${fontWeight} ${height + fontSizeAdjustment}px ${toCssFontFamily(family)}`);
+}
+
+const PROBE_FONT_SIZE = 32;
+const probeFonts = new Map<string, string>();
+
+// Whether the family has its own glyph for the character. It is measured once with a serif and once with
+// a monospace fallback: if the browser had to substitute, the two measurements differ.
+function hasOwnGlyph(fontFamily: string, fontWeight: string, char: string): boolean {
+    if (GENERIC_FONT_FAMILIES.includes(fontFamily.toLowerCase())) return true;
+    const measure = (generic: 'serif' | 'monospace') => {
+        const slot = `probe-${generic}` as const;
+        const ctx = getRenderContext(slot, 1, 1);
+        const font = `${fontWeight} ${PROBE_FONT_SIZE}px ${toCssFontFamily(fontFamily)}, ${generic}`;
+        if (probeFonts.get(slot) !== font) {
+            ctx.font = font;
+            probeFonts.set(slot, font);
+        }
+        const m = ctx.measureText(char);
+        return [m.width, m.actualBoundingBoxLeft, m.actualBoundingBoxRight, m.actualBoundingBoxAscent, m.actualBoundingBoxDescent].join();
+    };
+    return measure('serif') === measure('monospace');
+}
+
+// The family that draws the character: the primary font if it covers it, else the first fallback
+// whose ranges include the character and which has the glyph. Whitespace always counts as covered.
+function resolveGlyphFont(options: FontGeneratorOptions, fallbacks: { fontFamily: string; ranges: CodePointRange[] }[], char: string): { fontFamily: string; coverage?: 'fallback' | 'missing' } {
+    const { fontFamily, fontWeight } = options;
+    if (char.trim() === '' || hasOwnGlyph(fontFamily, fontWeight, char)) return { fontFamily };
+    const codePoint = char.codePointAt(0)!;
+    const fallback = fallbacks.find(f => isInRanges(codePoint, f.ranges) && hasOwnGlyph(f.fontFamily, fontWeight, char));
+    return fallback ? { fontFamily: fallback.fontFamily, coverage: 'fallback' } : { fontFamily, coverage: 'missing' };
+}
+
+// Pixels rendered around the cell on every side. Ink that lands there is cut off when the cell is cropped out.
+const CLIP_MARGIN = 1;
+
+// Whether ink of a rendered grid touches the edge rows or columns of its inner `width` x `height` cell, or lies beyond them.
+// Top and bottom alignment put every glyph against that edge on purpose, so there only ink beyond it counts.
+function touchesCellEdge(grid: boolean[][], width: number, height: number, alignedEdge: 'top' | 'bottom' | null): boolean {
+    const top = alignedEdge === 'top' ? CLIP_MARGIN - 1 : CLIP_MARGIN;
+    const bottom = alignedEdge === 'bottom' ? CLIP_MARGIN + height : CLIP_MARGIN + height - 1;
+    return grid.some((row, y) => row.some((ink, x) =>
+        ink && (y <= top || y >= bottom || x <= CLIP_MARGIN || x >= CLIP_MARGIN + width - 1)
+    ));
+}
+
+// Puts a cropped cell back into the grid it was cropped from, keeping the grid's margin.
+function withCell<T>(grid: T[][], cell: T[][]): T[][] {
+    return grid.map((row, y) => row.map((value, x) => cell[y - CLIP_MARGIN]?.[x - CLIP_MARGIN] ?? value));
+}
+
+function cropToCell<T>(grid: T[][], width: number, height: number): T[][] {
+    return grid.slice(CLIP_MARGIN, CLIP_MARGIN + height).map(row => row.slice(CLIP_MARGIN, CLIP_MARGIN + width));
+}
 
 function imageDataToBitmap(imageData: ImageData, threshold: number): boolean[][] {
     const { width, height, data } = imageData;
@@ -15,8 +133,123 @@ function imageDataToBitmap(imageData: ImageData, threshold: number): boolean[][]
     return bitmap;
 }
 
+// Otsu's method: the threshold that best separates the glyph's coverage values into ink and background,
+// by maximizing the between-class variance of the histogram. The histogram is built from the downsampled
+// cell's coverage values, which are what the threshold is compared against. Returns null when there is
+// nothing to separate.
+function getOtsuThreshold(grayscale: number[][]): number | null {
+    const histogram = new Array(256).fill(0);
+    let total = 0;
+    let sum = 0;
+    for (const row of grayscale) {
+        for (const value of row) {
+            const bin = Math.round(value);
+            histogram[bin]++;
+            total++;
+            sum += bin;
+        }
+    }
+
+    let backgroundCount = 0;
+    let backgroundSum = 0;
+    let bestVariance = 0;
+    let bestThreshold: number | null = null;
+    for (let t = 0; t < 255; t++) {
+        backgroundCount += histogram[t];
+        backgroundSum += t * histogram[t];
+        const foregroundCount = total - backgroundCount;
+        if (backgroundCount === 0 || foregroundCount === 0) continue;
+        const meanDifference = backgroundSum / backgroundCount - (sum - backgroundSum) / foregroundCount;
+        const variance = backgroundCount * foregroundCount * meanDifference * meanDifference;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            bestThreshold = t;
+        }
+    }
+    return bestThreshold;
+}
+
+// Snaps each averaged pixel to the nearest grayscale level. Pixels at or below the threshold stay off,
+// anything brighter is shown at least at the lowest level so thin strokes survive.
+function quantizeGrayscale(grayscale: number[][], bitDepth: BitDepth, threshold: number): number[][] {
+    const maxLevel = getMaxLevel(bitDepth);
+    return grayscale.map(row => row.map(value => {
+        if (value <= threshold) return 0;
+        const level = Math.max(1, intensityToLevel(value, bitDepth));
+        return Math.round(level * 255 / maxLevel);
+    }));
+}
+
+// Options a single overridden character is rendered with, plus the extra shift its offsets apply outside 'manual' alignment.
+function applyGlyphOverride(options: FontGeneratorOptions, override: GlyphRenderOverride) {
+    const { xOffset, yOffset, ...renderSettings } = override;
+    const manual = options.autoAlign === 'manual';
+    return {
+        options: {
+            ...options,
+            ...renderSettings,
+            // An explicit threshold for the glyph replaces the automatic one.
+            autoThreshold: override.renderThreshold === undefined && options.autoThreshold,
+            xOffset: manual ? xOffset ?? options.xOffset : options.xOffset,
+            yOffset: manual ? yOffset ?? options.yOffset : options.yOffset,
+        },
+        shiftX: manual ? 0 : xOffset ?? 0,
+        shiftY: manual ? 0 : yOffset ?? 0,
+    };
+}
 
+// Renders the characters in order. Overridden characters use their own settings from `options.glyphOverrides`,
+// and characters the primary font lacks are drawn with the fallback chain and flagged in `fontCoverage`.
 export function generateChars(options: FontGeneratorOptions, characters: string[]): GeneratedChar[] {
+  const overrides = options.glyphOverrides;
+  // A fallback whose ranges do not parse is skipped rather than failing the whole font; the options panel shows its error.
+  const fallbacks = options.fallbackFonts.flatMap(fallback => {
+    try {
+      return [{ fontFamily: fallback.fontFamily, ranges: parseUnicodeRanges(fallback.unicodeRange) }];
+    } catch {
+      return [];
+    }
+  });
+  const generatedChars: GeneratedChar[] = [];
+  const coverage: ('fallback' | 'missing' | undefined)[] = [];
+  let primaryBaselineRow: number | undefined;
+  let run: string[] = [];
+
+  // Characters without overrides drawn by the primary font share one canvas setup, so they are rendered in runs.
+  const flushRun = () => {
+    if (run.length === 0) return;
+    for (const charData of renderChars(options, run, 0, 0)) generatedChars.push(charData);
+    run = [];
+  };
+
+  for (const char of characters) {
+    const override = overrides[char.codePointAt(0)!];
+    const glyphFont = resolveGlyphFont(options, fallbacks, char);
+    coverage.push(glyphFont.coverage);
+    if (!override && glyphFont.fontFamily === options.fontFamily) {
+      run.push(char);
+      continue;
+    }
+    flushRun();
+    let { options: glyphOptions, shiftX, shiftY } = override
+      ? applyGlyphOverride(options, override)
+      : { options, shiftX: 0, shiftY: 0 };
+    if (glyphFont.fontFamily !== options.fontFamily) {
+      // Fallback glyphs sit on the primary font's baseline rather than their own font's.
+      if (glyphOptions.autoAlign === 'baseline' && glyphOptions.baselineRow < 0) {
+        primaryBaselineRow ??= getFontBaselineRow(options);
+        glyphOptions = { ...glyphOptions, baselineRow: primaryBaselineRow };
+      }
+      glyphOptions = { ...glyphOptions, fontFamily: glyphFont.fontFamily };
+    }
+    generatedChars.push(...renderChars(glyphOptions, [char], shiftX, shiftY));
+  }
+  flushRun();
+
+  return generatedChars.map((charData, index) => coverage[index] ? { ...charData, fontCoverage: coverage[index] } : charData);
+}
+
+function renderChars(options: FontGeneratorOptions, characters: string[], shiftX: number, shiftY: number): GeneratedChar[] {
   const { 
     fontFamily, 
     fontWeight,
@@ -26,10 +259,16 @@ export function generateChars(options: FontGeneratorOptions, characters: string[
     fontSizeAdjustment,
     renderMode,
     renderThreshold,
+    autoThreshold,
+    strokeWeight,
+    ditherAlgorithm,
     autoAlign,
+    baselineRow,
+    horizontalAlign,
     xOffset,
     yOffset,
     dynamicWidth,
+    bitDepth,
   } = options;
 
   // 'width' from options is now consistently treated as the rendering area for the glyph.
@@ -48,7 +287,7 @@ export function generateChars(options: FontGeneratorOptions, characters: string[
       }));
     }
     const finalBitmap = Array.from({ length: height }, () => new Array(totalWidth).fill(false));
-    const finalBytes = Array(totalWidth).fill(0);
+    const finalBytes = encodeGlyph({ bitmap: finalBitmap }, height, options);
     return characters.map(char => ({
       char,
       codePoint: char.codePointAt(0)!,
@@ -58,16 +297,39 @@ export function generateChars(options: FontGeneratorOptions, characters: string[
   }
 
 
-  const canvas = document.createElement('canvas');
-  canvas.width = glyphRenderWidth;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d', { willReadFrequently: true });
-  if (!ctx) throw new Error('Could not get canvas context');
+  const gridWidth = glyphRenderWidth + CLIP_MARGIN * 2;
+  const gridHeight = height + CLIP_MARGIN * 2;
+  const ctx = getRenderContext('glyph', gridWidth, gridHeight);
   
   const adjustedFontSize = height + fontSizeAdjustment;
-  ctx.font = `${fontWeight} ${adjustedFontSize}px ${fontFamily}`;
+  ctx.font = `${fontWeight} ${adjustedFontSize}px ${toCssFontFamily(fontFamily)}`;
   ctx.textAlign = 'center';
-  ctx.textBaseline = 'middle';
+  ctx.textBaseline = autoAlign === 'baseline' ? 'alphabetic' : 'middle';
+  const baselineY = autoAlign === 'baseline' ? getBaselineY(ctx, height, baselineRow, 1) : 0;
+
+  const SUPER_SAMPLE_RATE = 10;
+  const superWidth = gridWidth * SUPER_SAMPLE_RATE;
+  const superHeight = gridHeight * SUPER_SAMPLE_RATE;
+  const superMargin = CLIP_MARGIN * SUPER_SAMPLE_RATE;
+  let superCtx: RenderContext | null = null;
+  if (renderMode !== 'aliased') {
+      superCtx = getRenderContext('super', superWidth, superHeight);
+      superCtx.imageSmoothingEnabled = true;
+      const superAdjustedFontSize = (height + fontSizeAdjustment) * SUPER_SAMPLE_RATE;
+      superCtx.font = `${fontWeight} ${superAdjustedFontSize}px ${toCssFontFamily(fontFamily)}`;
+      superCtx.textAlign = 'center';
+      superCtx.textBaseline = autoAlign === 'baseline' ? 'alphabetic' : 'middle';
+      superCtx.fillStyle = '#FFFFFF';
+  }
+  const superBaselineY = superCtx && autoAlign === 'baseline'
+      ? getBaselineY(superCtx, height, baselineRow, SUPER_SAMPLE_RATE)
+      : 0;
+
+  // Ink-based alignment happens after rasterization, so horizontal offsets are applied after it as a column shift.
+  const alignInk = !dynamicWidth && horizontalAlign !== 'center';
+  const columnShift = alignInk ? (autoAlign === 'manual' ? xOffset : 0) + shiftX : 0;
+  const drawShiftX = alignInk ? 0 : shiftX;
+  const drawXOffset = alignInk ? 0 : xOffset;
 
   const generatedChars: GeneratedChar[] = [];
 
@@ -75,16 +337,21 @@ export function generateChars(options: FontGeneratorOptions, characters: string[
      if (char.trim() === '' && char !== ' ') {
       // For fixed width, total width is `width`. For dynamic, it's 0.
       const totalWidth = dynamicWidth ? 0 : glyphRenderWidth + charSpacing;
+      const blankBitmap = Array(height).fill(0).map(() => Array(totalWidth).fill(false));
       generatedChars.push({
           char,
           codePoint: char.codePointAt(0)!,
-          bitmap: Array(height).fill(0).map(() => Array(totalWidth).fill(false)),
-          bytes: Array(totalWidth).fill(0),
+          bitmap: blankBitmap,
+          bytes: encodeGlyph({ bitmap: blankBitmap }, height, options),
       });
       continue;
     }
     
     let renderedBitmap: boolean[][];
+    // Quantized intensities (0-255), only kept for grayscale output.
+    let renderedGrayscale: number[][] | undefined;
+    // The rendered grid including its margin, thresholded, to tell whether ink reaches the cell edge.
+    let marginInk: boolean[][];
     
     // Determine position
     let x_pos = glyphRenderWidth / 2;
@@ -95,58 +362,50 @@ export function generateChars(options: FontGeneratorOptions, characters: string[
         y_pos = height - metrics.actualBoundingBoxDescent;
     } else if (autoAlign === 'top') {
         y_pos = metrics.actualBoundingBoxAscent;
+    } else if (autoAlign === 'baseline') {
+        y_pos = baselineY;
     } else { // manual
-        x_pos += xOffset;
+        x_pos += drawXOffset;
         y_pos += yOffset;
     }
+    x_pos += drawShiftX;
+    y_pos += shiftY;
 
-    if (renderMode === 'aliased') {
+    if (!superCtx) {
       ctx.imageSmoothingEnabled = false;
-      ctx.clearRect(0, 0, glyphRenderWidth, height);
+      ctx.clearRect(0, 0, gridWidth, gridHeight);
       ctx.fillStyle = '#FFFFFF';
-      ctx.fillText(char, x_pos, y_pos);
-      const imageData = ctx.getImageData(0, 0, glyphRenderWidth, height);
-      renderedBitmap = imageDataToBitmap(imageData, 128);
+      ctx.fillText(char, x_pos + CLIP_MARGIN, y_pos + CLIP_MARGIN);
+      const imageData = ctx.getImageData(0, 0, gridWidth, gridHeight);
+      marginInk = imageDataToBitmap(imageData, 128);
+      renderedBitmap = cropToCell(marginInk, glyphRenderWidth, height);
     } else { 
-        const SUPER_SAMPLE_RATE = 10;
-        const superWidth = glyphRenderWidth * SUPER_SAMPLE_RATE;
-        const superHeight = height * SUPER_SAMPLE_RATE;
-
-        const superCanvas = document.createElement('canvas');
-        superCanvas.width = superWidth;
-        superCanvas.height = superHeight;
-        const superCtx = superCanvas.getContext('2d', { willReadFrequently: true });
-        if (!superCtx) throw new Error('Could not get super canvas context');
-
-        superCtx.imageSmoothingEnabled = true;
-        const superAdjustedFontSize = (height + fontSizeAdjustment) * SUPER_SAMPLE_RATE;
-        superCtx.font = `${fontWeight} ${superAdjustedFontSize}px ${fontFamily}`;
-        superCtx.textAlign = 'center';
-        superCtx.textBaseline = 'middle';
-        superCtx.fillStyle = '#FFFFFF';
-
-        let super_x_pos = superWidth / 2;
-        let super_y_pos = superHeight / 2;
+        let super_x_pos = glyphRenderWidth * SUPER_SAMPLE_RATE / 2;
+        let super_y_pos = height * SUPER_SAMPLE_RATE / 2;
 
         const superMetrics = superCtx.measureText(char);
         if (autoAlign === 'bottom') {
-            super_y_pos = superHeight - superMetrics.actualBoundingBoxDescent;
+            super_y_pos = height * SUPER_SAMPLE_RATE - superMetrics.actualBoundingBoxDescent;
         } else if (autoAlign === 'top') {
             super_y_pos = superMetrics.actualBoundingBoxAscent;
+        } else if (autoAlign === 'baseline') {
+            super_y_pos = superBaselineY;
         } else { // manual
-            super_x_pos += xOffset * SUPER_SAMPLE_RATE;
+            super_x_pos += drawXOffset * SUPER_SAMPLE_RATE;
             super_y_pos += yOffset * SUPER_SAMPLE_RATE;
         }
+        super_x_pos += drawShiftX * SUPER_SAMPLE_RATE;
+        super_y_pos += shiftY * SUPER_SAMPLE_RATE;
 
         superCtx.clearRect(0, 0, superWidth, superHeight);
-        superCtx.fillText(char, super_x_pos, super_y_pos);
+        superCtx.fillText(char, super_x_pos + superMargin, super_y_pos + superMargin);
 
         const superImageData = superCtx.getImageData(0, 0, superWidth, superHeight);
         const superData = superImageData.data;
 
-        const grayscaleBitmap: number[][] = Array.from({ length: height }, () => new Array(glyphRenderWidth).fill(0));
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < glyphRenderWidth; x++) {
+        const gridGrayscale: number[][] = Array.from({ length: gridHeight }, () => new Array(gridWidth).fill(0));
+        for (let y = 0; y < gridHeight; y++) {
+            for (let x = 0; x < gridWidth; x++) {
                 let sum = 0;
                 for (let sy = 0; sy < SUPER_SAMPLE_RATE; sy++) {
                     for (let sx = 0; sx < SUPER_SAMPLE_RATE; sx++) {
@@ -156,40 +415,70 @@ export function generateChars(options: FontGeneratorOptions, characters: string[
                         sum += superData[alphaIndex];
                     }
                 }
-                grayscaleBitmap[y][x] = sum / (SUPER_SAMPLE_RATE * SUPER_SAMPLE_RATE);
+                gridGrayscale[y][x] = sum / (SUPER_SAMPLE_RATE * SUPER_SAMPLE_RATE);
             }
         }
 
-        if (renderMode === 'anti-aliased') {
-            renderedBitmap = grayscaleBitmap.map(row => row.map(pixelValue => pixelValue > renderThreshold));
-        } else { 
-            const ditherGrayscale = grayscaleBitmap.map(row => [...row]);
-            renderedBitmap = Array.from({ length: height }, () => new Array(glyphRenderWidth).fill(false));
+        const grayscaleBitmap = cropToCell(gridGrayscale, glyphRenderWidth, height);
+        const threshold = autoThreshold ? getOtsuThreshold(grayscaleBitmap) ?? renderThreshold : renderThreshold;
+        // The margin is only thresholded, so error diffusion from the cell cannot light it.
+        marginInk = gridGrayscale.map(row => row.map(value => value > threshold));
+        if (bitDepth > 1) {
+            const maxLevel = getMaxLevel(bitDepth);
+            renderedGrayscale = renderMode === 'anti-aliased'
+                ? quantizeGrayscale(grayscaleBitmap, bitDepth, threshold)
+                : ditherGrayscale(grayscaleBitmap, ditherAlgorithm, value => Math.round(intensityToLevel(value, bitDepth) * 255 / maxLevel), 255 / maxLevel);
+            renderedBitmap = renderedGrayscale.map(row => row.map(intensity => intensity > 0));
+        } else if (renderMode === 'anti-aliased') {
+            renderedBitmap = grayscaleBitmap.map(row => row.map(pixelValue => pixelValue > threshold));
+        } else {
+            renderedBitmap = ditherGrayscale(grayscaleBitmap, ditherAlgorithm, value => value < threshold ? 0 : 255, 255)
+                .map(row => row.map(intensity => intensity === 255));
+        }
+    }
+
+    // Flagged when ink touches or crosses the cell edge once the stroke weight has grown or thinned it,
+    // or when the ink alignment below pushes some of it out of the cell.
+    let edgeInk = withCell(marginInk, renderedBitmap);
+    if (strokeWeight !== 0) {
+        edgeInk = adjustStrokeWeight(edgeInk.map(row => row.map(pixel => pixel ? 255 : 0)), strokeWeight)
+            .map(row => row.map(intensity => intensity > 0));
+    }
+    let clipped = touchesCellEdge(edgeInk, glyphRenderWidth, height, autoAlign === 'top' || autoAlign === 'bottom' ? autoAlign : null);
 
-            for (let y = 0; y < height; y++) {
-                for (let x = 0; x < glyphRenderWidth; x++) {
-                    const oldPixel = ditherGrayscale[y][x];
-                    const newPixel = oldPixel < renderThreshold ? 0 : 255;
-                    renderedBitmap[y][x] = newPixel === 255;
-                    const quantError = oldPixel - newPixel;
-
-                    if (x + 1 < glyphRenderWidth) ditherGrayscale[y][x + 1] += quantError * 7 / 16;
-                    if (y + 1 < height) {
-                        if (x - 1 >= 0) ditherGrayscale[y + 1][x - 1] += quantError * 3 / 16;
-                        ditherGrayscale[y + 1][x] += quantError * 5 / 16;
-                        if (x + 1 < glyphRenderWidth) ditherGrayscale[y + 1][x + 1] += quantError * 1 / 16;
-                    }
-                }
-            }
+    if (strokeWeight !== 0) {
+        if (renderedGrayscale) {
+            renderedGrayscale = adjustStrokeWeight(renderedGrayscale, strokeWeight);
+            renderedBitmap = renderedGrayscale.map(row => row.map(intensity => intensity > 0));
+        } else {
+            renderedBitmap = adjustStrokeWeight(renderedBitmap.map(row => row.map(pixel => pixel ? 255 : 0)), strokeWeight)
+                .map(row => row.map(intensity => intensity > 0));
+        }
+    }
+
+    const inkBounds = alignInk ? getInkBounds(renderedBitmap) : null;
+    if (alignInk && (inkBounds || columnShift !== 0)) {
+        let shift = columnShift;
+        if (inkBounds) {
+            const inkWidth = inkBounds.maxX - inkBounds.minX + 1;
+            if (horizontalAlign === 'left') shift -= inkBounds.minX;
+            else if (horizontalAlign === 'right') shift += glyphRenderWidth - 1 - inkBounds.maxX;
+            else shift += Math.floor((glyphRenderWidth - inkWidth) / 2) - inkBounds.minX;
         }
+        const inkCount = renderedBitmap.flat().filter(Boolean).length;
+        renderedBitmap = shiftColumns(renderedBitmap, shift, false);
+        renderedGrayscale = renderedGrayscale && shiftColumns(renderedGrayscale, shift, 0);
+        clipped ||= renderedBitmap.flat().filter(Boolean).length < inkCount;
     }
 
     let finalBitmap: boolean[][];
+    let finalGrayscale = renderedGrayscale;
 
     if (dynamicWidth) {
         if (char === ' ') {
             const spaceWidth = Math.floor(glyphRenderWidth / 2) || 1;
             finalBitmap = Array.from({ length: height }, () => new Array(spaceWidth).fill(false));
+            finalGrayscale = undefined;
         } else {
             let minX = glyphRenderWidth;
             let maxX = -1;
@@ -203,8 +492,10 @@ export function generateChars(options: FontGeneratorOptions, characters: string[
             }
             if (maxX === -1) { 
                 finalBitmap = Array.from({ length: height }, () => []);
+                finalGrayscale = undefined;
             } else {
                 finalBitmap = renderedBitmap.map(row => row.slice(minX, maxX + 1));
+                finalGrayscale = renderedGrayscale?.map(row => row.slice(minX, maxX + 1));
             }
         }
     } else {
@@ -212,47 +503,20 @@ export function generateChars(options: FontGeneratorOptions, characters: string[
         if (charSpacing > 0) {
             const spacingColumns = Array(charSpacing).fill(false);
             finalBitmap.forEach(row => row.push(...spacingColumns));
+            finalGrayscale?.forEach(row => row.push(...Array(charSpacing).fill(0)));
         }
     }
     
-    const msbTopBytes: number[] = [];
-    const finalCharWidth = finalBitmap[0]?.length || 0;
-
-    for (let c = 0; c < finalCharWidth; c++) {
-      let byte = 0;
-      for (let r = 0; r < height; r++) {
-        if (finalBitmap[r]?.[c]) {
-          byte |= (1 << (height - 1 - r)); 
-        }
-      }
-      msbTopBytes.push(byte);
-    }
-    
     generatedChars.push({
       char,
       codePoint: char.codePointAt(0)!,
       bitmap: finalBitmap,
-      bytes: msbTopBytes,
+      bytes: encodeGlyph({ bitmap: finalBitmap, grayscale: finalGrayscale }, height, options),
+      ...(finalGrayscale && { grayscale: finalGrayscale }),
+      ...(clipped && { clipped }),
     });
   }
   
   return generatedChars;
 }
 
-
-export function generateFontData(options: FontGeneratorOptions): Promise<GeneratedChar[]> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-        const { characterSet } = options;
-        const uniqueCharacters = [...new Set(Array.from(characterSet))];
-        resolve(generateChars(options, uniqueCharacters));
-    }, 10);
-  });
-}
-
-export function generatePreviewFontData(options: FontGeneratorOptions, previewCharacters: string): Promise<GeneratedChar[]> {
-    return new Promise((resolve) => {
-        const characters = Array.from(previewCharacters);
-        resolve(generateChars(options, characters));
-    });
-}
\ No newline at end of file
@@ -1,5 +1,7 @@
 
-import type { GeneratedChar, FontGeneratorOptions, ParsedFontData } from '../types';
+import type { GeneratedChar, FontGeneratorOptions, ParsedFontData, ByteEncoding, GlyphOrientation } from '../types';
+import { bytesToBitmap, getGlyphByteCount, MAX_CHAR_HEIGHT } from './bitmapEncoding';
+import { isSideways, unorientPixels } from './bitmapUtils';
 
 interface ImportOptions {
     rawData: string;
@@ -9,23 +11,8 @@ interface ImportOptions {
     charHeight: number;
     charWidth: number; // For fixed-width
     isDynamic: boolean;
-}
-
-// Helper to convert an array of bytes for one char into a 2D boolean bitmap
-function bytesToBitmap(bytes: number[], width: number, height: number): boolean[][] {
-    const bitmap: boolean[][] = Array.from({ length: height }, () => new Array(width).fill(false));
-    if (height > 8) {
-        throw new Error("Cannot convert bytes to bitmap for height > 8.");
-    }
-    for (let c = 0; c < width; c++) {
-        const byte = bytes[c] || 0;
-        for (let r = 0; r < height; r++) {
-            if ((byte >> (height - 1 - r)) & 1) {
-                bitmap[r][c] = true;
-            }
-        }
-    }
-    return bitmap;
+    encoding: ByteEncoding;
+    orientation: GlyphOrientation; // How the glyphs were stored; they are turned back upright
 }
 
 // Helper to extract numbers (hex, binary, or decimal) from a C/Python array string, ignoring comments
@@ -114,14 +101,19 @@ export function parseArrayString(text: string): number[] {
 
 
 export function parseImportedData(options: ImportOptions): ParsedFontData {
-    const { rawData, rawWidths, rawOffsets, characterSet, charHeight, charWidth, isDynamic } = options;
+    const { rawData, rawWidths, rawOffsets, characterSet, charHeight, charWidth, isDynamic, encoding, orientation } = options;
+    // Size of a glyph as packed in the data, which is on its side for 90/270 degree orientations.
+    const getPackedSize = (width: number): [number, number] => isSideways(orientation) ? [charHeight, width] : [width, charHeight];
+    const decodeGlyph = (bytes: number[], width: number): boolean[][] => width === 0
+        ? Array.from({ length: charHeight }, () => [])
+        : unorientPixels(bytesToBitmap(bytes, ...getPackedSize(width), encoding), orientation);
     const generatedChars: GeneratedChar[] = [];
     const uniqueChars = Array.from(new Set(Array.from(characterSet)));
     uniqueChars.sort((a, b) => (a.codePointAt(0) ?? 0) - (b.codePointAt(0) ?? 0));
     const sortedCharacterSet = uniqueChars.join('');
 
-    if (charHeight <= 0 || charHeight > 8) {
-        throw new Error(`Invalid height: ${charHeight}. Must be between 1 and 8.`);
+    if (charHeight <= 0 || charHeight > MAX_CHAR_HEIGHT) {
+        throw new Error(`Invalid height: ${charHeight}. Must be between 1 and ${MAX_CHAR_HEIGHT}.`);
     }
 
     if (isDynamic) {
@@ -146,12 +138,13 @@ export function parseImportedData(options: ImportOptions): ParsedFontData {
             
             if (width > maxWidth) maxWidth = width;
 
-            if (offset + width > dataBytes.length) {
-                throw new Error(`Character '${char}' (index ${i}) has an offset+width (${offset}+${width}) that exceeds the data array bounds (${dataBytes.length}).`);
+            const byteCount = getGlyphByteCount(...getPackedSize(width), encoding);
+            if (offset + byteCount > dataBytes.length) {
+                throw new Error(`Character '${char}' (index ${i}) has an offset+size (${offset}+${byteCount}) that exceeds the data array bounds (${dataBytes.length}).`);
             }
 
-            const bytes = dataBytes.slice(offset, offset + width);
-            const bitmap = bytesToBitmap(bytes, width, charHeight);
+            const bytes = dataBytes.slice(offset, offset + byteCount);
+            const bitmap = decodeGlyph(bytes, width);
 
             generatedChars.push({
                 char,
@@ -169,6 +162,8 @@ export function parseImportedData(options: ImportOptions): ParsedFontData {
                 characterSet: sortedCharacterSet,
                 dynamicWidth: true,
                 charSpacing: 0,
+                ...encoding,
+                orientation,
             }
         };
 
@@ -184,17 +179,18 @@ export function parseImportedData(options: ImportOptions): ParsedFontData {
             throw new Error(`Data array is empty or could not be parsed, but found ${uniqueChars.length} character(s) in the set.`);
         }
 
-        const expectedBytes = uniqueChars.length * charWidth;
+        const bytesPerChar = getGlyphByteCount(...getPackedSize(charWidth), encoding);
+        const expectedBytes = uniqueChars.length * bytesPerChar;
         
         if (dataBytes.length !== expectedBytes && uniqueChars.length > 0) {
-            throw new Error(`Data array size mismatch. Expected ${expectedBytes} bytes (${uniqueChars.length} chars * ${charWidth} width), but found ${dataBytes.length}.`);
+            throw new Error(`Data array size mismatch. Expected ${expectedBytes} bytes (${uniqueChars.length} chars * ${bytesPerChar} bytes per ${charWidth}x${charHeight} glyph), but found ${dataBytes.length}.`);
         }
 
         for (let i = 0; i < uniqueChars.length; i++) {
             const char = uniqueChars[i];
-            const startIndex = i * charWidth;
-            const bytes = dataBytes.slice(startIndex, startIndex + charWidth);
-            const bitmap = bytesToBitmap(bytes, charWidth, charHeight);
+            const startIndex = i * bytesPerChar;
+            const bytes = dataBytes.slice(startIndex, startIndex + bytesPerChar);
+            const bitmap = decodeGlyph(bytes, charWidth);
 
             generatedChars.push({
                 char,
@@ -212,6 +208,8 @@ export function parseImportedData(options: ImportOptions): ParsedFontData {
                 characterSet: sortedCharacterSet,
                 dynamicWidth: false,
                 charSpacing: 0, // Assuming imported fonts have spacing baked in
+                ...encoding,
+                orientation,
             }
         };
     }
@@ -0,0 +1,83 @@
+import type { GeneratedChar, FontGeneratorOptions } from '../types';
+import { generateChars, getFontShorthands } from './fontGenerator';
+
+// A font face forwarded from the page, either from a CSS @font-face rule or an uploaded font file.
+export interface WorkerFontSource {
+    key: string;
+    family: string;
+    source: string | ArrayBuffer;
+    descriptors: FontFaceDescriptors;
+}
+
+export type WorkerRequest =
+    | { type: 'fonts'; fonts: WorkerFontSource[] }
+    | { type: 'generate'; id: number; options: FontGeneratorOptions; characters: string[] }
+    | { type: 'cancel'; id: number };
+
+export type WorkerResponse =
+    | { type: 'chunk'; id: number; chars: GeneratedChar[]; done: number; total: number }
+    | { type: 'done'; id: number }
+    | { type: 'error'; id: number; message: string }
+    | { type: 'unsupported'; id: number };
+
+// Characters rendered and posted per message. Cancellation is checked between chunks, and
+// streaming the results keeps each message small even for sets of many thousands of glyphs.
+const CHUNK_SIZE = 64;
+
+declare const self: {
+    fonts?: FontFaceSet;
+    postMessage(message: WorkerResponse): void;
+    onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+const cancelledJobs = new Set<number>();
+
+// Lets queued messages (such as cancellations) run between chunks.
+const yieldToEventLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+async function runJob(id: number, options: FontGeneratorOptions, characters: string[]) {
+    const fonts = self.fonts;
+    if (!fonts || typeof OffscreenCanvas === 'undefined') {
+        self.postMessage({ type: 'unsupported', id });
+        return;
+    }
+
+    try {
+        // Web fonts load lazily; make sure the faces (and unicode-range subsets) for these characters are ready,
+        // in the primary and every fallback family.
+        const text = characters.join('');
+        await Promise.all(getFontShorthands(options).map(font => fonts.load(font, text).catch(() => undefined)));
+
+        for (let start = 0; start < characters.length; start += CHUNK_SIZE) {
+            if (cancelledJobs.has(id)) return;
+            const chars = generateChars(options, characters.slice(start, start + CHUNK_SIZE));
+            const done = Math.min(start + CHUNK_SIZE, characters.length);
+            self.postMessage({ type: 'chunk', id, chars, done, total: characters.length });
+            await yieldToEventLoop();
+        }
+        if (!cancelledJobs.has(id)) {
+            self.postMessage({ type: 'done', id });
+        }
+    } catch (e) {
+        self.postMessage({ type: 'error', id, message: e instanceof Error ? e.message : 'An unknown error occurred.' });
+    } finally {
+        cancelledJobs.delete(id);
+    }
+}
+
+self.onmessage = (event) => {
+    const request = event.data;
+    switch (request.type) {
+        case 'fonts':
+            request.fonts.forEach(({ family, source, descriptors }) => {
+                self.fonts?.add(new FontFace(family, source, descriptors));
+            });
+            break;
+        case 'generate':
+            runJob(request.id, request.options, request.characters);
+            break;
+        case 'cancel':
+            cancelledJobs.add(request.id);
+            break;
+    }
+};
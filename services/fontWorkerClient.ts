@@ -0,0 +1,169 @@
+import type { GeneratedChar, FontGeneratorOptions } from '../types';
+import type { WorkerFontSource, WorkerRequest, WorkerResponse } from './fontWorker';
+import { generateChars, getFontShorthands } from './fontGenerator';
+import { getRegisteredCustomFonts, base64ToArrayBuffer } from './customFonts';
+
+export interface GenerationCallbacks {
+    onProgress?: (done: number, total: number) => void;
+    signal?: AbortSignal;
+}
+
+interface PendingJob {
+    options: FontGeneratorOptions;
+    characters: string[];
+    callbacks: GenerationCallbacks;
+    chars: GeneratedChar[];
+    resolve: (chars: GeneratedChar[]) => void;
+    reject: (error: unknown) => void;
+}
+
+// Characters per main-thread chunk when workers are unavailable.
+const FALLBACK_CHUNK_SIZE = 64;
+
+let worker: Worker | null = null;
+let workerUnsupported = typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined';
+let nextJobId = 1;
+const pendingJobs = new Map<number, PendingJob>();
+const sentFontKeys = new Set<string>();
+
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function createAbortError(): DOMException {
+    return new DOMException('Generation was cancelled.', 'AbortError');
+}
+
+// Font faces the worker needs, since workers do not see the document's fonts: every CSS @font-face rule
+// (e.g. the Google Fonts stylesheet, which must be loaded with CORS to be readable) and every uploaded font.
+function collectFontSources(): WorkerFontSource[] {
+    const sources: WorkerFontSource[] = [];
+
+    for (const sheet of Array.from(document.styleSheets)) {
+        let rules: CSSRuleList;
+        try {
+            rules = sheet.cssRules;
+        } catch {
+            continue; // Cross-origin stylesheet without CORS
+        }
+        for (const rule of Array.from(rules)) {
+            if (!(rule instanceof CSSFontFaceRule)) continue;
+            const family = rule.style.getPropertyValue('font-family').trim().replace(/^["']|["']$/g, '');
+            const src = rule.style.getPropertyValue('src');
+            if (!family || !src) continue;
+            const descriptors: FontFaceDescriptors = {};
+            const weight = rule.style.getPropertyValue('font-weight');
+            const style = rule.style.getPropertyValue('font-style');
+            const unicodeRange = rule.style.getPropertyValue('unicode-range');
+            if (weight) descriptors.weight = weight;
+            if (style) descriptors.style = style;
+            if (unicodeRange) descriptors.unicodeRange = unicodeRange;
+            sources.push({ key: `css:${family}:${weight}:${style}:${unicodeRange}:${src}`, family, source: src, descriptors });
+        }
+    }
+
+    getRegisteredCustomFonts().forEach(font => {
+        const key = `custom:${font.family}:${font.data.length}`;
+        // Skip decoding fonts the worker already has.
+        if (sentFontKeys.has(key)) return;
+        sources.push({ key, family: font.family, source: base64ToArrayBuffer(font.data), descriptors: {} });
+    });
+    return sources;
+}
+
+function syncWorkerFonts(target: Worker) {
+    const newFonts = collectFontSources().filter(font => !sentFontKeys.has(font.key));
+    if (newFonts.length === 0) return;
+    newFonts.forEach(font => sentFontKeys.add(font.key));
+    const request: WorkerRequest = { type: 'fonts', fonts: newFonts };
+    target.postMessage(request);
+}
+
+function getWorker(): Worker {
+    if (worker) return worker;
+
+    worker = new Worker(new URL('./fontWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const response = event.data;
+        const job = pendingJobs.get(response.id);
+        if (!job) return;
+
+        switch (response.type) {
+            case 'chunk':
+                for (const charData of response.chars) job.chars.push(charData);
+                job.callbacks.onProgress?.(response.done, response.total);
+                return;
+            case 'done':
+                job.resolve(job.chars);
+                break;
+            case 'error':
+                job.reject(new Error(response.message));
+                break;
+            case 'unsupported':
+                // E.g. no FontFaceSet in workers: run this and all later jobs on the main thread.
+                workerUnsupported = true;
+                generateOnMainThread(job.options, job.characters, job.callbacks).then(job.resolve, job.reject);
+                break;
+        }
+        pendingJobs.delete(response.id);
+    };
+    // The worker script failed to load or crashed: finish everything on the main thread from now on.
+    worker.onerror = () => {
+        workerUnsupported = true;
+        worker?.terminate();
+        worker = null;
+        pendingJobs.forEach(job => generateOnMainThread(job.options, job.characters, job.callbacks).then(job.resolve, job.reject));
+        pendingJobs.clear();
+    };
+    return worker;
+}
+
+async function generateOnMainThread(options: FontGeneratorOptions, characters: string[], callbacks: GenerationCallbacks): Promise<GeneratedChar[]> {
+    const { onProgress, signal } = callbacks;
+    const text = characters.join('');
+    await Promise.all(getFontShorthands(options).map(font => document.fonts.load(font, text).catch(() => undefined)));
+
+    const chars: GeneratedChar[] = [];
+    for (let start = 0; start < characters.length; start += FALLBACK_CHUNK_SIZE) {
+        if (signal?.aborted) throw createAbortError();
+        for (const charData of generateChars(options, characters.slice(start, start + FALLBACK_CHUNK_SIZE))) chars.push(charData);
+        onProgress?.(chars.length, characters.length);
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    if (signal?.aborted) throw createAbortError();
+    return chars;
+}
+
+// Renders the characters in a Web Worker, falling back to chunked main-thread rendering when
+// workers or OffscreenCanvas are unavailable. Aborting the signal rejects with an AbortError.
+export function generateCharsAsync(options: FontGeneratorOptions, characters: string[], callbacks: GenerationCallbacks = {}): Promise<GeneratedChar[]> {
+    const { signal } = callbacks;
+    if (signal?.aborted) return Promise.reject(createAbortError());
+    if (workerUnsupported) return generateOnMainThread(options, characters, callbacks);
+
+    return new Promise((resolve, reject) => {
+        const target = getWorker();
+        const id = nextJobId++;
+        pendingJobs.set(id, { options, characters, callbacks, chars: [], resolve, reject });
+
+        signal?.addEventListener('abort', () => {
+            if (!pendingJobs.delete(id)) return;
+            const cancel: WorkerRequest = { type: 'cancel', id };
+            target.postMessage(cancel);
+            reject(createAbortError());
+        }, { once: true });
+
+        syncWorkerFonts(target);
+        const request: WorkerRequest = { type: 'generate', id, options, characters };
+        target.postMessage(request);
+    });
+}
+
+export function generateFontData(options: FontGeneratorOptions, callbacks?: GenerationCallbacks): Promise<GeneratedChar[]> {
+    const uniqueCharacters = [...new Set(Array.from(options.characterSet))];
+    return generateCharsAsync(options, uniqueCharacters, callbacks);
+}
+
+export function generatePreviewFontData(options: FontGeneratorOptions, previewCharacters: string, signal?: AbortSignal): Promise<GeneratedChar[]> {
+    return generateCharsAsync(options, Array.from(previewCharacters), { signal });
+}
@@ -0,0 +1,268 @@
+import type { GeneratedChar, FontGeneratorOptions, ParsedFontData, ByteEncoding } from '../types';
+import { bitmapToBytes, MAX_CHAR_HEIGHT } from './bitmapEncoding';
+import { getInkBounds } from './bitmapUtils';
+import { parseArrayString } from './fontParser';
+
+// Mirrors the GFXglyph struct from Adafruit_GFX's gfxfont.h.
+export interface GfxGlyph {
+    bitmapOffset: number;
+    width: number;
+    height: number;
+    xAdvance: number;
+    xOffset: number;
+    yOffset: number;
+}
+
+// Field ranges of GFXglyph, in declaration order.
+const GFX_GLYPH_FIELDS = [
+    { name: 'bitmapOffset', min: 0, max: 0xFFFF },
+    { name: 'width', min: 0, max: 0xFF },
+    { name: 'height', min: 0, max: 0xFF },
+    { name: 'xAdvance', min: 0, max: 0xFF },
+    { name: 'xOffset', min: -128, max: 127 },
+    { name: 'yOffset', min: -128, max: 127 },
+];
+
+// Packs the pixels inside the given box as one continuous MSB-first bit stream, as Adafruit_GFX expects.
+// Only the glyph as a whole is padded to a byte boundary, not each row.
+function packGlyphBits(bitmap: boolean[][], minX: number, maxX: number, minY: number, maxY: number): number[] {
+    const bytes: number[] = [];
+    let current = 0;
+    let bitCount = 0;
+    for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+            current = (current << 1) | (bitmap[y]?.[x] ? 1 : 0);
+            bitCount++;
+            if (bitCount === 8) {
+                bytes.push(current);
+                current = 0;
+                bitCount = 0;
+            }
+        }
+    }
+    if (bitCount > 0) {
+        bytes.push(current << (8 - bitCount));
+    }
+    return bytes;
+}
+
+// Builds an Adafruit GFX `GFXfont` header. The cell's bottom row is used as the baseline, and
+// dynamic-width glyphs advance by their width plus one pixel of spacing.
+// GFX fonts cover a contiguous code point range, so gaps in the character set become empty glyphs.
+export function generateGfxFont(fontData: GeneratedChar[], options: FontGeneratorOptions, fontName: string): string {
+    const { fontFamily, width, height, dynamicWidth } = options;
+    const glyphChars = fontData.filter(charData => charData.codePoint <= 0xFFFF);
+    const skippedCount = fontData.length - glyphChars.length;
+
+    let code = `// Font: ${fontFamily}, Size: ${dynamicWidth ? 'Up to ' : ''}${width}x${height} (Adafruit GFX format)\n`;
+    code += `// Include <Adafruit_GFX.h> and select it with display.setFont(&${fontName});\n`;
+    if (skippedCount > 0) {
+        code += `// Note: ${skippedCount} character(s) above U+FFFF were skipped (GFXfont uses 16-bit code points).\n`;
+    }
+
+    if (glyphChars.length === 0) {
+        return code + `// No characters to export.\n`;
+    }
+
+    const byCodePoint = new Map(glyphChars.map(charData => [charData.codePoint, charData]));
+    const first = glyphChars[0].codePoint;
+    const last = glyphChars[glyphChars.length - 1].codePoint;
+
+    const bitmapBytes: number[] = [];
+    const glyphs: { glyph: GfxGlyph; charData?: GeneratedChar }[] = [];
+
+    for (let codePoint = first; codePoint <= last; codePoint++) {
+        const charData = byCodePoint.get(codePoint);
+        if (!charData) {
+            glyphs.push({ glyph: { bitmapOffset: bitmapBytes.length, width: 0, height: 0, xAdvance: 0, xOffset: 0, yOffset: 0 } });
+            continue;
+        }
+
+        const cellWidth = charData.bitmap[0]?.length || 0;
+        const xAdvance = dynamicWidth ? cellWidth + 1 : cellWidth;
+        const bounds = getInkBounds(charData.bitmap);
+
+        if (!bounds) {
+            glyphs.push({ glyph: { bitmapOffset: bitmapBytes.length, width: 0, height: 0, xAdvance, xOffset: 0, yOffset: 0 }, charData });
+            continue;
+        }
+
+        const { minX, maxX, minY, maxY } = bounds;
+        const glyph: GfxGlyph = {
+            bitmapOffset: bitmapBytes.length,
+            width: maxX - minX + 1,
+            height: maxY - minY + 1,
+            xAdvance,
+            xOffset: minX,
+            yOffset: minY - height,
+        };
+        bitmapBytes.push(...packGlyphBits(charData.bitmap, minX, maxX, minY, maxY));
+        glyphs.push({ glyph, charData });
+    }
+
+    // GFXglyph.bitmapOffset is a uint16_t; larger offsets would silently wrap on the device.
+    const lastOffset = glyphs[glyphs.length - 1].glyph.bitmapOffset;
+    if (lastOffset > 0xFFFF) {
+        throw new Error(`The GFX bitmap data needs ${bitmapBytes.length} bytes, but glyph offsets are 16-bit and cannot exceed 65535. Export fewer characters or a smaller size.`);
+    }
+
+    // C does not allow empty arrays, so a font without any lit pixel still gets one padding byte.
+    if (bitmapBytes.length === 0) {
+        bitmapBytes.push(0);
+    }
+
+    const CHUNK_SIZE = 12;
+    const formatHex = (b: number) => `0x${b.toString(16).padStart(2, '0').toUpperCase()}`;
+    const formatCodePoint = (cp: number) => `0x${cp.toString(16).padStart(2, '0').toUpperCase()}`;
+
+    code += `\nconst uint8_t ${fontName}Bitmaps[] PROGMEM = {\n`;
+    for (let i = 0; i < bitmapBytes.length; i += CHUNK_SIZE) {
+        const isLast = i + CHUNK_SIZE >= bitmapBytes.length;
+        code += '  ' + bitmapBytes.slice(i, i + CHUNK_SIZE).map(formatHex).join(', ') + (isLast ? '\n' : ',\n');
+    }
+    code += `};\n\n`;
+
+    code += `const GFXglyph ${fontName}Glyphs[] PROGMEM = {\n`;
+    glyphs.forEach(({ glyph, charData }, index) => {
+        const fields = [glyph.bitmapOffset, glyph.width, glyph.height, glyph.xAdvance, glyph.xOffset, glyph.yOffset]
+            .map(value => String(value).padStart(5, ' '))
+            .join(', ');
+        const separator = index === glyphs.length - 1 ? ' ' : ',';
+        const label = charData
+            ? `'${charData.char.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`
+            : '(missing)';
+        code += `  { ${fields} }${separator} // ${formatCodePoint(first + index)} ${label}\n`;
+    });
+    code += `};\n\n`;
+
+    code += `const GFXfont ${fontName} PROGMEM = {\n`;
+    code += `  (uint8_t  *)${fontName}Bitmaps,\n`;
+    code += `  (GFXglyph *)${fontName}Glyphs,\n`;
+    code += `  ${formatCodePoint(first)}, ${formatCodePoint(last)}, ${height}\n`;
+    code += `};\n\n`;
+    // Same estimate as Adafruit's fontconvert: bitmaps + 7 bytes per glyph + 7 for the GFXfont struct.
+    code += `// Approx. ${bitmapBytes.length + glyphs.length * 7 + 7} bytes\n`;
+
+    return code;
+}
+
+// Finds the brace-enclosed initializer of the first declaration of the given C type, e.g. `GFXglyph name[] = { ... };`.
+function findInitializer(source: string, typeName: string): string | null {
+    const declaration = new RegExp(`\\b${typeName}\\s+\\w+\\s*(\\[\\s*\\d*\\s*\\])?\\s*(PROGMEM\\s*)?=\\s*\\{`);
+    const match = declaration.exec(source);
+    if (!match) return null;
+
+    const start = match.index + match[0].length;
+    let depth = 1;
+    for (let i = start; i < source.length; i++) {
+        if (source[i] === '{') depth++;
+        if (source[i] === '}') depth--;
+        if (depth === 0) return source.substring(start, i);
+    }
+    return null;
+}
+
+// Parses a complete Adafruit GFX font header (.h) into a dynamic-width font.
+// Glyphs are positioned vertically by their baseline offsets and trimmed horizontally to their ink,
+// the same way this tool stores dynamic-width glyphs. Empty glyphs keep their advance minus one pixel of spacing.
+export function parseGfxFont(text: string, encoding: ByteEncoding): ParsedFontData {
+    const source = text.replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, '');
+
+    const bitmapBody = findInitializer(source, 'uint8_t');
+    const glyphBody = findInitializer(source, 'GFXglyph');
+    const fontBody = findInitializer(source, 'GFXfont');
+
+    if (bitmapBody === null) {
+        throw new Error('Could not find the uint8_t bitmap array in the GFX header.');
+    }
+    if (glyphBody === null) {
+        throw new Error('Could not find the GFXglyph table in the GFX header.');
+    }
+    if (fontBody === null) {
+        throw new Error('Could not find the GFXfont struct in the GFX header.');
+    }
+
+    const bitmapBytes = parseArrayString(`{${bitmapBody}}`);
+    const glyphs: GfxGlyph[] = [];
+    for (const entry of glyphBody.match(/\{[^{}]*\}/g) ?? []) {
+        const values = parseArrayString(entry);
+        if (values.length !== 6) {
+            throw new Error(`Invalid GFXglyph entry "${entry.trim()}": expected 6 values, found ${values.length}.`);
+        }
+        const [bitmapOffset, width, height, xAdvance, xOffset, yOffset] = values;
+        const outOfRange = GFX_GLYPH_FIELDS.find(({ min, max }, index) => values[index] < min || values[index] > max);
+        if (outOfRange) {
+            throw new Error(`Invalid GFXglyph entry "${entry.trim()}": ${outOfRange.name} must be between ${outOfRange.min} and ${outOfRange.max}.`);
+        }
+        glyphs.push({ bitmapOffset, width, height, xAdvance, xOffset, yOffset });
+    }
+
+    const fontFields = fontBody.split(',').map(field => field.trim()).filter(Boolean);
+    const first = Number(fontFields[fontFields.length - 3]);
+    const last = Number(fontFields[fontFields.length - 2]);
+    if (fontFields.length < 5 || isNaN(first) || isNaN(last)) {
+        throw new Error('Could not read the first/last code points from the GFXfont struct.');
+    }
+    if (last - first + 1 !== glyphs.length) {
+        throw new Error(`The GFXfont covers ${last - first + 1} code points (0x${first.toString(16)}-0x${last.toString(16)}), but the glyph table has ${glyphs.length} entries.`);
+    }
+
+    // Missing code points are exported as all-zero glyphs; skip them.
+    const presentGlyphs = glyphs
+        .map((glyph, index) => ({ glyph, codePoint: first + index }))
+        .filter(({ glyph }) => glyph.width > 0 || glyph.height > 0 || glyph.xAdvance > 0);
+
+    const inkedGlyphs = presentGlyphs.filter(({ glyph }) => glyph.width > 0 && glyph.height > 0);
+    const top = inkedGlyphs.length > 0 ? Math.min(...inkedGlyphs.map(({ glyph }) => glyph.yOffset)) : 0;
+    // The cell always reaches down to the baseline so glyphs without descenders keep their bottom margin.
+    const bottom = inkedGlyphs.length > 0 ? Math.max(0, ...inkedGlyphs.map(({ glyph }) => glyph.yOffset + glyph.height)) : 1;
+    const cellHeight = bottom - top;
+
+    if (cellHeight > MAX_CHAR_HEIGHT) {
+        throw new Error(`The glyphs span ${cellHeight} rows, which exceeds the maximum height of ${MAX_CHAR_HEIGHT}.`);
+    }
+
+    let maxWidth = 0;
+    const fontData: GeneratedChar[] = presentGlyphs.map(({ glyph, codePoint }) => {
+        const char = String.fromCodePoint(codePoint);
+        let bitmap: boolean[][];
+
+        if (glyph.width > 0 && glyph.height > 0) {
+            const bitCount = glyph.width * glyph.height;
+            if (glyph.bitmapOffset + Math.ceil(bitCount / 8) > bitmapBytes.length) {
+                throw new Error(`Glyph 0x${codePoint.toString(16)} reads past the end of the bitmap array (${bitmapBytes.length} bytes).`);
+            }
+            bitmap = Array.from({ length: cellHeight }, () => new Array(glyph.width).fill(false));
+            const firstRow = glyph.yOffset - top;
+            for (let bit = 0; bit < bitCount; bit++) {
+                const byte = bitmapBytes[glyph.bitmapOffset + (bit >> 3)];
+                if ((byte >> (7 - (bit & 7))) & 1) {
+                    bitmap[firstRow + Math.floor(bit / glyph.width)][bit % glyph.width] = true;
+                }
+            }
+        } else {
+            const spaceWidth = Math.max(1, glyph.xAdvance - 1);
+            bitmap = Array.from({ length: cellHeight }, () => new Array(spaceWidth).fill(false));
+        }
+
+        maxWidth = Math.max(maxWidth, bitmap[0]?.length || 0);
+        return {
+            char,
+            codePoint,
+            bitmap,
+            bytes: bitmapToBytes(bitmap, cellHeight, encoding),
+        };
+    });
+
+    return {
+        fontData,
+        fontOptions: {
+            width: maxWidth > 0 ? maxWidth : 8,
+            height: cellHeight,
+            characterSet: fontData.map(d => d.char).join(''),
+            dynamicWidth: true,
+            charSpacing: 0,
+            ...encoding,
+        },
+    };
+}
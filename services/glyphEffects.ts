@@ -0,0 +1,73 @@
+import type { GeneratedChar, FontGeneratorOptions } from '../types';
+import { encodeGlyph, getGlyphGrayscale } from './bitmapEncoding';
+import { getInkBounds } from './bitmapUtils';
+
+export type GlyphEffect = 'outline' | 'bold' | 'shadow' | 'underline' | 'invert';
+
+// Columns a dynamic-width glyph grows by on [left, right] so the effect is not cut off at the cell edge.
+const DYNAMIC_PADDING: Record<GlyphEffect, [number, number]> = {
+    outline: [1, 1],
+    bold: [0, 1],
+    shadow: [0, 1],
+    underline: [0, 0],
+    invert: [0, 0],
+};
+
+const NEIGHBOURS = [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]];
+
+function padColumns(pixels: number[][], left: number, right: number): number[][] {
+    return pixels.map(row => [...new Array(left).fill(0), ...row, ...new Array(right).fill(0)]);
+}
+
+// Works on 0-255 intensities so grayscale glyphs keep their shading. Lit means non-zero, as in the bitmap.
+function applyEffectToPixels(pixels: number[][], effect: GlyphEffect): number[][] {
+    const at = (x: number, y: number) => pixels[y]?.[x] ?? 0;
+    switch (effect) {
+        // Hollow 1-px outline: the pixels around the ink light up and the ink itself goes dark.
+        case 'outline':
+            return pixels.map((row, y) => row.map((value, x) =>
+                value > 0 ? 0 : Math.max(...NEIGHBOURS.map(([dx, dy]) => at(x + dx, y + dy)))
+            ));
+        // Synthetic bold: every stroke is smeared one pixel to the right.
+        case 'bold':
+            return pixels.map((row, y) => row.map((value, x) => Math.max(value, at(x - 1, y))));
+        // Drop shadow one pixel down and to the right, at half intensity on grayscale glyphs.
+        case 'shadow':
+            return pixels.map((row, y) => row.map((value, x) => {
+                const shadow = at(x - 1, y - 1);
+                return value > 0 || shadow === 0 ? value : Math.max(1, Math.round(shadow / 2));
+            }));
+        // Underline on the bottom row of the cell.
+        case 'underline':
+            return pixels.map((row, y) => y === pixels.length - 1 ? row.map(() => 255) : row);
+        case 'invert':
+            return pixels.map(row => row.map(value => 255 - value));
+    }
+}
+
+// Applies `effect` to one glyph and re-encodes its bytes. Fixed-width glyphs keep their size;
+// dynamic-width glyphs with ink grow as needed to fit an outline, bold stroke or shadow.
+export function applyGlyphEffect(charData: GeneratedChar, effect: GlyphEffect, options: FontGeneratorOptions): GeneratedChar {
+    let pixels = getGlyphGrayscale(charData);
+    if (options.dynamicWidth && getInkBounds(charData.bitmap)) {
+        const [left, right] = DYNAMIC_PADDING[effect];
+        pixels = padColumns(pixels, left, right);
+    }
+    pixels = applyEffectToPixels(pixels, effect);
+
+    const bitmap = pixels.map(row => row.map(intensity => intensity > 0));
+    const grayscale = options.bitDepth > 1 ? pixels : undefined;
+    return {
+        ...charData,
+        bitmap,
+        grayscale,
+        bytes: encodeGlyph({ bitmap, grayscale }, options.height, options),
+    };
+}
+
+// Applies `effect` to the glyphs whose code points are in `codePoints`, or to every glyph when it is empty.
+export function applyGlyphEffects(fontData: GeneratedChar[], effect: GlyphEffect, options: FontGeneratorOptions, codePoints: Set<number>): GeneratedChar[] {
+    return fontData.map(charData =>
+        codePoints.size === 0 || codePoints.has(charData.codePoint) ? applyGlyphEffect(charData, effect, options) : charData
+    );
+}
@@ -0,0 +1,36 @@
+import type { ProjectFile, FontGeneratorOptions, GeneratedChar, CustomFont } from '../types';
+
+export const PROJECT_FILE_EXTENSION = 'dmfproj';
+
+export function serializeProject(options: FontGeneratorOptions, fontData: GeneratedChar[] | null, customFonts: CustomFont[]): string {
+    const project: ProjectFile = { version: 1, options, fontData, customFonts };
+    return JSON.stringify(project);
+}
+
+// Parses a saved project. Options missing from older project files are left for the caller to fill with defaults.
+export function parseProjectFile(text: string): ProjectFile {
+    let project: Partial<ProjectFile>;
+    try {
+        project = JSON.parse(text);
+    } catch {
+        throw new Error('The project file is not valid JSON.');
+    }
+
+    if (!project || typeof project !== 'object' || project.version !== 1) {
+        throw new Error('Unsupported project file. It may have been saved by a newer version of this tool.');
+    }
+    if (!project.options || typeof project.options.fontFamily !== 'string') {
+        throw new Error('The project file does not contain generator settings.');
+    }
+    if (project.fontData != null && !Array.isArray(project.fontData)) {
+        throw new Error('The project file contains invalid character data.');
+    }
+
+    return {
+        version: 1,
+        // Overrides belong to the project's glyphs, so older files without any start from none.
+        options: { ...project.options, glyphOverrides: project.options.glyphOverrides ?? {} },
+        fontData: project.fontData ?? null,
+        customFonts: Array.isArray(project.customFonts) ? project.customFonts : [],
+    };
+}
@@ -0,0 +1,221 @@
+import type { GeneratedChar, FontGeneratorOptions, ParsedFontData, ByteEncoding } from '../types';
+import { bitmapToBytes, getBytesPerRow, MAX_CHAR_HEIGHT } from './bitmapEncoding';
+
+export type PsfVersion = 1 | 2;
+
+const PSF1_MAGIC = [0x36, 0x04];
+const PSF1_MODE512 = 0x01;
+const PSF1_MODEHASTAB = 0x02;
+const PSF1_MODEHASSEQ = 0x04;
+const PSF1_SEPARATOR = 0xFFFF;
+const PSF1_STARTSEQ = 0xFFFE;
+
+const PSF2_MAGIC = [0x72, 0xB5, 0x4A, 0x86];
+const PSF2_HEADER_SIZE = 32;
+const PSF2_HAS_UNICODE_TABLE = 0x01;
+const PSF2_SEPARATOR = 0xFF;
+const PSF2_STARTSEQ = 0xFE;
+
+// Packs a glyph row by row, each row padded to whole bytes with the leftmost pixel in the MSB.
+// Glyphs narrower than the cell are padded on the right.
+function packGlyphRows(bitmap: boolean[][], width: number, height: number): number[] {
+    const bytesPerRow = getBytesPerRow(width);
+    const bytes: number[] = new Array(height * bytesPerRow).fill(0);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (bitmap[y]?.[x]) {
+                bytes[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+            }
+        }
+    }
+    return bytes;
+}
+
+// Builds a binary PC Screen Font (as used by the Linux console and setfont) with a Unicode table
+// mapping each glyph to its code point. PSF1 only allows 8-pixel-wide glyphs, 256 or 512 glyphs
+// and 16-bit code points, so unused PSF1 slots are left blank and unmapped.
+export function generatePsfFont(fontData: GeneratedChar[], options: FontGeneratorOptions, version: PsfVersion): Uint8Array {
+    const { height } = options;
+    const width = Math.max(1, ...fontData.map(charData => charData.bitmap[0]?.length || 0));
+    const bytesPerGlyph = height * getBytesPerRow(width);
+
+    const header: number[] = [];
+    const glyphBytes: number[] = [];
+    const unicodeTable: number[] = [];
+
+    if (version === 1) {
+        if (width > 8) {
+            throw new Error(`PSF1 fonts are always 8 pixels wide, but the widest glyph is ${width} pixels. Use PSF2 instead.`);
+        }
+        if (fontData.length > 512) {
+            throw new Error(`PSF1 fonts hold at most 512 glyphs, but the font has ${fontData.length}. Use PSF2 instead.`);
+        }
+        const wideChar = fontData.find(charData => charData.codePoint > 0xFFFF);
+        if (wideChar) {
+            throw new Error(`PSF1 Unicode tables only hold 16-bit code points (U+${wideChar.codePoint.toString(16).toUpperCase()} found). Use PSF2 instead.`);
+        }
+        if (height > 255) {
+            throw new Error(`PSF1 glyphs can be at most 255 rows tall.`);
+        }
+
+        const glyphCount = fontData.length > 256 ? 512 : 256;
+        header.push(...PSF1_MAGIC, PSF1_MODEHASTAB | (glyphCount === 512 ? PSF1_MODE512 : 0), height);
+
+        // Keep glyphs at their code point when possible, so programs that ignore the Unicode table still find them.
+        const slots: (GeneratedChar | undefined)[] = fontData.every(charData => charData.codePoint < glyphCount)
+            ? Array.from({ length: glyphCount }, (_, index) => fontData.find(charData => charData.codePoint === index))
+            : fontData;
+
+        for (let index = 0; index < glyphCount; index++) {
+            const charData = slots[index];
+            glyphBytes.push(...(charData ? packGlyphRows(charData.bitmap, 8, height) : new Array(height).fill(0)));
+            if (charData) {
+                unicodeTable.push(charData.codePoint & 0xFF, charData.codePoint >> 8);
+            }
+            unicodeTable.push(PSF1_SEPARATOR & 0xFF, PSF1_SEPARATOR >> 8);
+        }
+    } else {
+        const writeUint32 = (value: number) => header.push(value & 0xFF, (value >> 8) & 0xFF, (value >> 16) & 0xFF, (value >>> 24) & 0xFF);
+        header.push(...PSF2_MAGIC);
+        writeUint32(0); // version
+        writeUint32(PSF2_HEADER_SIZE);
+        writeUint32(PSF2_HAS_UNICODE_TABLE);
+        writeUint32(fontData.length);
+        writeUint32(bytesPerGlyph);
+        writeUint32(height);
+        writeUint32(width);
+
+        const encoder = new TextEncoder();
+        fontData.forEach(charData => {
+            glyphBytes.push(...packGlyphRows(charData.bitmap, width, height));
+            unicodeTable.push(...encoder.encode(String.fromCodePoint(charData.codePoint)), PSF2_SEPARATOR);
+        });
+    }
+
+    return new Uint8Array([...header, ...glyphBytes, ...unicodeTable]);
+}
+
+// Reads the code points of each glyph from a PSF1 (UCS-2) or PSF2 (UTF-8) Unicode table.
+// Multi-code-point sequences cannot be represented by a single character here, so they are skipped.
+function readUnicodeTable(bytes: Uint8Array, start: number, glyphCount: number, version: PsfVersion): number[][] {
+    const mappings: number[][] = [];
+    let pos = start;
+
+    for (let glyph = 0; glyph < glyphCount && pos < bytes.length; glyph++) {
+        const codePoints: number[] = [];
+        let inSequence = false;
+
+        if (version === 1) {
+            while (pos + 1 < bytes.length) {
+                const value = bytes[pos] | (bytes[pos + 1] << 8);
+                pos += 2;
+                if (value === PSF1_SEPARATOR) break;
+                if (value === PSF1_STARTSEQ) inSequence = true;
+                else if (!inSequence) codePoints.push(value);
+            }
+        } else {
+            const end = bytes.indexOf(PSF2_SEPARATOR, pos);
+            const entry = bytes.subarray(pos, end === -1 ? bytes.length : end);
+            pos = end === -1 ? bytes.length : end + 1;
+            const singles = entry.indexOf(PSF2_STARTSEQ);
+            const text = new TextDecoder().decode(singles === -1 ? entry : entry.subarray(0, singles));
+            for (const char of text) {
+                codePoints.push(char.codePointAt(0)!);
+            }
+        }
+        mappings.push(codePoints);
+    }
+    return mappings;
+}
+
+// Parses a binary PSF1 or PSF2 font into a fixed-width font. With a Unicode table, every code point
+// mapped to a glyph becomes its own character; without one, glyph N is assumed to be code point N.
+export function parsePsfFont(buffer: ArrayBuffer, encoding: ByteEncoding): ParsedFontData {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+
+    let version: PsfVersion;
+    let glyphCount: number;
+    let bytesPerGlyph: number;
+    let width: number;
+    let height: number;
+    let glyphStart: number;
+    let hasUnicodeTable: boolean;
+
+    if (bytes.length >= 4 && PSF1_MAGIC.every((value, i) => bytes[i] === value)) {
+        const mode = bytes[2];
+        version = 1;
+        glyphCount = mode & PSF1_MODE512 ? 512 : 256;
+        height = bytes[3];
+        width = 8;
+        bytesPerGlyph = height;
+        glyphStart = 4;
+        hasUnicodeTable = (mode & (PSF1_MODEHASTAB | PSF1_MODEHASSEQ)) !== 0;
+    } else if (bytes.length >= PSF2_HEADER_SIZE && PSF2_MAGIC.every((value, i) => bytes[i] === value)) {
+        version = 2;
+        glyphStart = view.getUint32(8, true);
+        hasUnicodeTable = (view.getUint32(12, true) & PSF2_HAS_UNICODE_TABLE) !== 0;
+        glyphCount = view.getUint32(16, true);
+        bytesPerGlyph = view.getUint32(20, true);
+        height = view.getUint32(24, true);
+        width = view.getUint32(28, true);
+        if (bytesPerGlyph < height * getBytesPerRow(width)) {
+            throw new Error(`Invalid PSF2 header: ${bytesPerGlyph} bytes per glyph cannot hold ${width}x${height} pixels.`);
+        }
+    } else {
+        throw new Error('This is not a PSF font (unrecognized magic number).');
+    }
+
+    if (height <= 0 || height > MAX_CHAR_HEIGHT) {
+        throw new Error(`The font is ${height} pixels tall, but the height must be between 1 and ${MAX_CHAR_HEIGHT}.`);
+    }
+    if (width <= 0) {
+        throw new Error(`Invalid glyph width: ${width}.`);
+    }
+    const tableStart = glyphStart + glyphCount * bytesPerGlyph;
+    if (tableStart > bytes.length) {
+        throw new Error(`The file is truncated: ${glyphCount} glyphs of ${bytesPerGlyph} bytes need ${tableStart} bytes, but the file has ${bytes.length}.`);
+    }
+
+    const mappings = hasUnicodeTable
+        ? readUnicodeTable(bytes, tableStart, glyphCount, version)
+        : Array.from({ length: glyphCount }, (_, index) => [index]);
+
+    const bytesPerRow = getBytesPerRow(width);
+    const seen = new Set<number>();
+    const fontData: GeneratedChar[] = [];
+
+    mappings.forEach((codePoints, index) => {
+        const offset = glyphStart + index * bytesPerGlyph;
+        const bitmap = Array.from({ length: height }, (_, y) =>
+            Array.from({ length: width }, (_, x) => ((bytes[offset + y * bytesPerRow + (x >> 3)] >> (7 - (x & 7))) & 1) === 1)
+        );
+        codePoints.forEach(codePoint => {
+            if (seen.has(codePoint) || codePoint > 0x10FFFF) return;
+            seen.add(codePoint);
+            fontData.push({
+                char: String.fromCodePoint(codePoint),
+                codePoint,
+                bitmap: bitmap.map(row => [...row]),
+                bytes: bitmapToBytes(bitmap, height, encoding),
+            });
+        });
+    });
+
+    if (fontData.length === 0) {
+        throw new Error('The PSF Unicode table does not map any glyph to a single code point.');
+    }
+    fontData.sort((a, b) => a.codePoint - b.codePoint);
+
+    return {
+        fontData,
+        fontOptions: {
+            width,
+            height,
+            characterSet: fontData.map(d => d.char).join(''),
+            dynamicWidth: false,
+            charSpacing: 0,
+            ...encoding,
+        },
+    };
+}
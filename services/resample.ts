@@ -0,0 +1,119 @@
+import type { GeneratedChar, FontGeneratorOptions, ParsedFontData } from '../types';
+import { encodeGlyph, getGlyphGrayscale, MAX_CHAR_HEIGHT } from './bitmapEncoding';
+
+// 'nearest' and 'scale2x' enlarge the font, 'majority' shrinks it.
+export type ResampleMethod = 'nearest' | 'scale2x' | 'majority';
+
+export const RESAMPLE_FACTORS: Record<ResampleMethod, number[]> = {
+    nearest: [2, 3, 4],
+    scale2x: [2, 4],
+    majority: [2, 3, 4],
+};
+
+function scaleNearest(pixels: number[][], factor: number): number[][] {
+    return pixels.flatMap(row => {
+        const scaledRow = row.flatMap(value => new Array(factor).fill(value));
+        return Array.from({ length: factor }, () => [...scaledRow]);
+    });
+}
+
+// Scale2x (EPX): each pixel becomes a 2x2 block whose corners take a neighbour's value where two
+// neighbours agree, which rounds off diagonal staircases. Pixels outside the glyph count as the pixel itself.
+function scale2x(pixels: number[][]): number[][] {
+    const height = pixels.length;
+    const width = pixels[0]?.length || 0;
+    const result: number[][] = Array.from({ length: height * 2 }, () => new Array(width * 2).fill(0));
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const p = pixels[y][x];
+            const a = y > 0 ? pixels[y - 1][x] : p;
+            const b = x < width - 1 ? pixels[y][x + 1] : p;
+            const c = x > 0 ? pixels[y][x - 1] : p;
+            const d = y < height - 1 ? pixels[y + 1][x] : p;
+            result[y * 2][x * 2] = c === a && c !== d && a !== b ? a : p;
+            result[y * 2][x * 2 + 1] = a === b && a !== c && b !== d ? b : p;
+            result[y * 2 + 1][x * 2] = d === c && d !== b && c !== a ? c : p;
+            result[y * 2 + 1][x * 2 + 1] = b === d && b !== a && d !== c ? d : p;
+        }
+    }
+    return result;
+}
+
+// Each `factor` x `factor` block becomes one pixel, lit when most of the block is lit. Blocks cut off by
+// the glyph edge only count the pixels they contain. A lit pixel keeps the average intensity of its lit pixels.
+function downscaleMajority(pixels: number[][], factor: number): number[][] {
+    const height = pixels.length;
+    const width = pixels[0]?.length || 0;
+    return Array.from({ length: Math.ceil(height / factor) }, (_, by) =>
+        Array.from({ length: Math.ceil(width / factor) }, (_, bx) => {
+            let count = 0;
+            let litCount = 0;
+            let litSum = 0;
+            for (let y = by * factor; y < Math.min(height, (by + 1) * factor); y++) {
+                for (let x = bx * factor; x < Math.min(width, (bx + 1) * factor); x++) {
+                    count++;
+                    if (pixels[y][x] > 0) {
+                        litCount++;
+                        litSum += pixels[y][x];
+                    }
+                }
+            }
+            return litCount * 2 > count ? Math.round(litSum / litCount) : 0;
+        })
+    );
+}
+
+function resamplePixels(pixels: number[][], method: ResampleMethod, factor: number): number[][] {
+    switch (method) {
+        case 'scale2x': {
+            let result = pixels;
+            for (let size = 1; size < factor; size *= 2) result = scale2x(result);
+            return result;
+        }
+        case 'majority':
+            return downscaleMajority(pixels, factor);
+        default:
+            return scaleNearest(pixels, factor);
+    }
+}
+
+// Height of the font after resampling by `factor`.
+export function getResampledHeight(height: number, method: ResampleMethod, factor: number): number {
+    return method === 'majority' ? Math.ceil(height / factor) : height * factor;
+}
+
+// Scales the existing glyphs, hand edits included, to a new height instead of re-rasterizing the font.
+export function resampleFont(fontData: GeneratedChar[], options: FontGeneratorOptions, method: ResampleMethod, factor: number): ParsedFontData {
+    if (!RESAMPLE_FACTORS[method].includes(factor)) {
+        throw new Error(`Unsupported factor ${factor} for this resampling method.`);
+    }
+    const height = getResampledHeight(options.height, method, factor);
+    if (height > MAX_CHAR_HEIGHT) {
+        throw new Error(`The resampled font would be ${height} pixels tall, but the height cannot be greater than ${MAX_CHAR_HEIGHT}.`);
+    }
+
+    const isGrayscale = options.bitDepth > 1;
+    const resampledData = fontData.map(charData => {
+        const pixels = resamplePixels(getGlyphGrayscale(charData), method, factor);
+        const bitmap = pixels.map(row => row.map(intensity => intensity > 0));
+        const grayscale = isGrayscale ? pixels : undefined;
+        return {
+            ...charData,
+            bitmap,
+            grayscale,
+            bytes: encodeGlyph({ bitmap, grayscale }, height, options),
+        };
+    });
+
+    const scale = (value: number) => method === 'majority' ? Math.ceil(value / factor) : value * factor;
+    const charSpacing = options.dynamicWidth ? options.charSpacing : Math.round(options.charSpacing * (method === 'majority' ? 1 / factor : factor));
+    return {
+        fontData: resampledData,
+        fontOptions: {
+            height,
+            width: options.dynamicWidth ? scale(options.width) : scale(options.width + options.charSpacing) - charSpacing,
+            charSpacing,
+        },
+    };
+}
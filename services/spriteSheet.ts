@@ -0,0 +1,207 @@
+import type { GeneratedChar, ParsedFontData, ByteEncoding } from '../types';
+import { bitmapToBytes, getGlyphGrayscale, MAX_CHAR_HEIGHT } from './bitmapEncoding';
+
+export interface SpriteSheetImportOptions {
+    cellWidth: number;
+    cellHeight: number;
+    columns: number; // 0 = as many cells as fit across the image
+    startCodePoint: number;
+    glyphCount: number; // 0 = every cell, minus trailing empty ones
+    threshold: number;
+    inkColor: 'light' | 'dark';
+}
+
+// Brightness of a pixel after compositing it onto the sheet background, so transparent
+// areas of a PNG always count as background whatever the ink color is.
+function getInkValue(data: Uint8ClampedArray, index: number, inkColor: 'light' | 'dark'): number {
+    const alpha = data[index + 3] / 255;
+    const luminance = 0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2];
+    return inkColor === 'light'
+        ? luminance * alpha
+        : 255 - (luminance * alpha + 255 * (1 - alpha));
+}
+
+// Slices a glyph grid image into fixed-width characters, left to right and top to bottom,
+// assigning consecutive code points from `startCodePoint`.
+export function parseSpriteSheet(image: ImageData, options: SpriteSheetImportOptions, encoding: ByteEncoding): ParsedFontData {
+    const { cellWidth, cellHeight, startCodePoint, threshold, inkColor } = options;
+
+    if (cellWidth <= 0 || cellHeight <= 0) {
+        throw new Error('Cell width and height must be positive numbers.');
+    }
+    if (cellHeight > MAX_CHAR_HEIGHT) {
+        throw new Error(`Invalid cell height: ${cellHeight}. Must be between 1 and ${MAX_CHAR_HEIGHT}.`);
+    }
+    if (cellWidth > image.width || cellHeight > image.height) {
+        throw new Error(`The ${cellWidth}x${cellHeight} cell is larger than the ${image.width}x${image.height} image.`);
+    }
+
+    const columns = options.columns > 0 ? options.columns : Math.floor(image.width / cellWidth);
+    if (columns * cellWidth > image.width) {
+        throw new Error(`${columns} columns of ${cellWidth}px need an image at least ${columns * cellWidth}px wide, but it is ${image.width}px.`);
+    }
+    const rows = Math.floor(image.height / cellHeight);
+    const cellCount = columns * rows;
+    if (options.glyphCount > cellCount) {
+        throw new Error(`The image only has room for ${cellCount} cells (${columns} x ${rows}), but ${options.glyphCount} glyphs were requested.`);
+    }
+    if (startCodePoint < 0 || startCodePoint + Math.max(cellCount, options.glyphCount) - 1 > 0x10FFFF) {
+        throw new Error(`Invalid starting code point: U+${startCodePoint.toString(16).toUpperCase()}.`);
+    }
+
+    const bitmaps: boolean[][][] = [];
+    for (let cell = 0; cell < (options.glyphCount || cellCount); cell++) {
+        const originX = (cell % columns) * cellWidth;
+        const originY = Math.floor(cell / columns) * cellHeight;
+        bitmaps.push(Array.from({ length: cellHeight }, (_, y) =>
+            Array.from({ length: cellWidth }, (_, x) =>
+                getInkValue(image.data, ((originY + y) * image.width + originX + x) * 4, inkColor) > threshold
+            )
+        ));
+    }
+
+    if (!options.glyphCount) {
+        while (bitmaps.length > 0 && !bitmaps[bitmaps.length - 1].some(row => row.some(pixel => pixel))) {
+            bitmaps.pop();
+        }
+    }
+    if (bitmaps.length === 0) {
+        throw new Error('No glyphs were found. Check the cell size, ink color and threshold.');
+    }
+
+    const fontData: GeneratedChar[] = bitmaps.map((bitmap, index) => {
+        const codePoint = startCodePoint + index;
+        return {
+            char: String.fromCodePoint(codePoint),
+            codePoint,
+            bitmap,
+            bytes: bitmapToBytes(bitmap, cellHeight, encoding),
+        };
+    });
+
+    return {
+        fontData,
+        fontOptions: {
+            width: cellWidth,
+            height: cellHeight,
+            characterSet: fontData.map(d => d.char).join(''),
+            dynamicWidth: false,
+            charSpacing: 0,
+            ...encoding,
+        },
+    };
+}
+
+export interface SpriteSheetExportOptions {
+    cellsPerRow: number;
+    padding: number; // Empty pixels around each cell, before scaling
+    scale: number;
+}
+
+export interface SpriteSheetCell {
+    codePoint: number;
+    char: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface SpriteSheetLayout {
+    sheetWidth: number;
+    sheetHeight: number;
+    cellWidth: number;
+    cellHeight: number;
+    cells: SpriteSheetCell[];
+}
+
+// Places every glyph in a grid of equal cells sized for the widest glyph. Glyphs sit at the top-left
+// of their cell; all positions and sizes are in output pixels, i.e. already multiplied by `scale`.
+export function getSpriteSheetLayout(fontData: GeneratedChar[], height: number, options: SpriteSheetExportOptions): SpriteSheetLayout {
+    const { padding, scale } = options;
+    const cellsPerRow = Math.max(1, Math.min(options.cellsPerRow, fontData.length || 1));
+    const maxGlyphWidth = Math.max(1, ...fontData.map(charData => charData.bitmap[0]?.length || 0));
+    const cellWidth = (maxGlyphWidth + padding * 2) * scale;
+    const cellHeight = (height + padding * 2) * scale;
+    const rows = Math.max(1, Math.ceil(fontData.length / cellsPerRow));
+
+    const cells = fontData.map((charData, index) => ({
+        codePoint: charData.codePoint,
+        char: charData.char,
+        x: (index % cellsPerRow) * cellWidth + padding * scale,
+        y: Math.floor(index / cellsPerRow) * cellHeight + padding * scale,
+        width: (charData.bitmap[0]?.length || 0) * scale,
+        height: height * scale,
+    }));
+
+    return { sheetWidth: cellsPerRow * cellWidth, sheetHeight: rows * cellHeight, cellWidth, cellHeight, cells };
+}
+
+// Renders the glyphs as white pixels on a transparent background, so the sheet can be tinted at runtime.
+// Grayscale glyphs keep their intensity as alpha.
+export function renderSpriteSheet(fontData: GeneratedChar[], height: number, options: SpriteSheetExportOptions): HTMLCanvasElement {
+    const layout = getSpriteSheetLayout(fontData, height, options);
+    const canvas = document.createElement('canvas');
+    canvas.width = layout.sheetWidth;
+    canvas.height = layout.sheetHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    fontData.forEach((charData, index) => {
+        const { x: cellX, y: cellY } = layout.cells[index];
+        getGlyphGrayscale(charData).forEach((row, y) => {
+            row.forEach((intensity, x) => {
+                if (intensity <= 0) return;
+                ctx.fillStyle = `rgba(255, 255, 255, ${intensity / 255})`;
+                ctx.fillRect(cellX + x * options.scale, cellY + y * options.scale, options.scale, options.scale);
+            });
+        });
+    });
+    return canvas;
+}
+
+// JSON sidecar describing where each code point sits in the sprite sheet.
+export function generateSpriteSheetManifest(fontData: GeneratedChar[], height: number, options: SpriteSheetExportOptions, imageName: string): string {
+    const { sheetWidth, sheetHeight, cellWidth, cellHeight, cells } = getSpriteSheetLayout(fontData, height, options);
+    return JSON.stringify({
+        image: imageName,
+        width: sheetWidth,
+        height: sheetHeight,
+        cellWidth,
+        cellHeight,
+        cellsPerRow: Math.round(sheetWidth / cellWidth),
+        padding: options.padding * options.scale,
+        scale: options.scale,
+        glyphs: cells,
+    }, null, 2);
+}
+
+// Vector specimen with one rect per lit pixel, laid out like the sprite sheet.
+// Grayscale pixels are drawn with a matching fill opacity.
+export function generateSvgSpecimen(fontData: GeneratedChar[], height: number, options: SpriteSheetExportOptions): string {
+    const layout = getSpriteSheetLayout(fontData, height, options);
+    const { scale } = options;
+    const lines: string[] = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.sheetWidth}" height="${layout.sheetHeight}" viewBox="0 0 ${layout.sheetWidth} ${layout.sheetHeight}" shape-rendering="crispEdges">`,
+    ];
+
+    fontData.forEach((charData, index) => {
+        const { x: cellX, y: cellY } = layout.cells[index];
+        // Control characters are not allowed in XML, so only printable characters get a comment.
+        const label = charData.codePoint >= 0x20 && charData.codePoint !== 0x7F
+            ? ` <!-- ${charData.char} -->`
+            : '';
+        lines.push(`  <g id="u${charData.codePoint.toString(16).toUpperCase().padStart(4, '0')}">${label}`);
+        getGlyphGrayscale(charData).forEach((row, y) => {
+            row.forEach((intensity, x) => {
+                if (intensity <= 0) return;
+                const opacity = intensity < 255 ? ` fill-opacity="${(intensity / 255).toFixed(2)}"` : '';
+                lines.push(`    <rect x="${cellX + x * scale}" y="${cellY + y * scale}" width="${scale}" height="${scale}"${opacity}/>`);
+            });
+        });
+        lines.push('  </g>');
+    });
+
+    lines.push('</svg>');
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,24 @@
+export type CodePointRange = [number, number];
+
+// Parses a CSS unicode-range style list such as "U+0400-04FF, U+2116". Prefixes are optional
+// and "?" wildcards are accepted ("U+04??"). An empty list matches every code point.
+export function parseUnicodeRanges(text: string): CodePointRange[] {
+    const ranges: CodePointRange[] = [];
+    for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+        const match = /^(?:U\+)?([0-9A-F?]{1,6})(?:-(?:U\+)?([0-9A-F]{1,6}))?$/i.exec(part);
+        if (!match || (match[2] && match[1].includes('?'))) {
+            throw new Error(`Invalid Unicode range "${part}". Use a form like U+0400-04FF.`);
+        }
+        const start = parseInt(match[1].replace(/\?/g, '0'), 16);
+        const end = match[2] ? parseInt(match[2], 16) : parseInt(match[1].replace(/\?/g, 'F'), 16);
+        if (end < start || end > 0x10FFFF) {
+            throw new Error(`Invalid Unicode range "${part}".`);
+        }
+        ranges.push([start, end]);
+    }
+    return ranges;
+}
+
+export function isInRanges(codePoint: number, ranges: CodePointRange[]): boolean {
+    return ranges.length === 0 || ranges.some(([start, end]) => codePoint >= start && codePoint <= end);
+}
@@ -4,6 +4,40 @@ export interface GeneratedChar {
   codePoint: number;
   bitmap: boolean[][];
   bytes: number[];
+  // Per-pixel intensity (0-255) for grayscale fonts. `bitmap` marks the pixels with a non-zero intensity.
+  grayscale?: number[][];
+  // Set when the primary font has no glyph for the character: 'fallback' if a fallback font drew it,
+  // 'missing' if no font in the chain covers it and the browser substituted its own.
+  fontCoverage?: 'fallback' | 'missing';
+  // Set when the rendered glyph reached past the edges of the cell and was cut off.
+  clipped?: boolean;
+}
+
+// Bits per pixel of the exported glyph data. 2 and 4 are grayscale.
+export type BitDepth = 1 | 2 | 4;
+
+// Bit order within each byte: 'msb-first' puts the top row (column-major, page) or the
+// leftmost pixel (row-major) in the most significant bit.
+export type BitOrder = 'msb-first' | 'lsb-first';
+
+// 'column-major' packs each column into vertical bytes, 'row-major' packs each row into horizontal bytes.
+// 'page' uses vertical 8-pixel strips like SSD1306/SH1106 OLEDs: all page-0 bytes of a glyph, then page 1, etc.
+export type ByteLayout = 'column-major' | 'row-major' | 'page';
+
+export interface ByteEncoding {
+  bitOrder: BitOrder;
+  byteLayout: ByteLayout;
+}
+
+// Error diffusion ('floyd-steinberg', 'atkinson', 'sierra-lite'), ordered ('bayer-*') or plain quantization ('none').
+export type DitherAlgorithm = 'floyd-steinberg' | 'atkinson' | 'sierra-lite' | 'bayer-2x2' | 'bayer-4x4' | 'none';
+
+// How glyphs are stored for displays mounted rotated or mirrored: mirrored first, then rotated clockwise.
+// Only the packed bytes are transformed; bitmaps stay upright.
+export interface GlyphOrientation {
+  rotation: 0 | 90 | 180 | 270;
+  mirrorX: boolean;
+  mirrorY: boolean;
 }
 
 export interface FontGeneratorOptions {
@@ -16,14 +50,70 @@ export interface FontGeneratorOptions {
   fontSizeAdjustment: number;
   renderMode: 'aliased' | 'anti-aliased' | 'dithered';
   renderThreshold: number;
-  autoAlign: 'top' | 'bottom' | 'manual';
+  // Picks each glyph's threshold from its own coverage histogram (Otsu's method) instead of `renderThreshold`.
+  // Like `renderThreshold`, it only applies to the supersampled modes; 'aliased' renders without coverage values.
+  autoThreshold: boolean;
+  // Pixels added to (positive) or removed from (negative) every stroke after rasterization, -2 to 2.
+  strokeWeight: number;
+  // Algorithm used by the 'dithered' render mode.
+  ditherAlgorithm: DitherAlgorithm;
+  // 'top'/'bottom' align each glyph's own ink box; 'baseline' puts every glyph on a shared baseline.
+  autoAlign: 'top' | 'bottom' | 'baseline' | 'manual';
+  // 0-based row that glyphs without descenders end on in 'baseline' mode; -1 derives it from the font's ascent/descent.
+  baselineRow: number;
+  // Horizontal placement of fixed-width glyphs. 'center' centres the text advance when drawing; the others
+  // move the rasterized ink to the left or right edge or centre it, and apply x offsets afterwards.
+  horizontalAlign: 'center' | 'left' | 'right' | 'ink-center';
   xOffset: number;
   yOffset: number;
   dynamicWidth: boolean;
+  bitOrder: BitOrder;
+  byteLayout: ByteLayout;
+  bitDepth: BitDepth;
+  orientation: GlyphOrientation;
+  // Fonts tried in order for characters the primary font lacks.
+  fallbackFonts: FontFallback[];
+  // Per-character render settings, keyed by code point.
+  glyphOverrides: Record<number, GlyphRenderOverride>;
+  // Sizes generated together in batch mode.
+  sizePresets: SizePreset[];
 }
 
+// One size of a font family: the cell size and the font size adjustment to render it with.
+export interface SizePreset {
+  width: number;
+  height: number;
+  fontSizeAdjustment: number;
+}
+
+export interface FontFallback {
+  fontFamily: string;
+  // CSS unicode-range syntax (e.g. "U+0400-04FF"); empty applies the fallback to every character.
+  unicodeRange: string;
+}
+
+// Render settings that replace the global ones for a single character. Offsets shift the glyph in
+// every alignment mode; in 'manual' mode they replace the global offsets instead of adding to them.
+export type GlyphRenderOverride = Partial<Pick<FontGeneratorOptions,
+  'xOffset' | 'yOffset' | 'renderThreshold' | 'fontSizeAdjustment' | 'renderMode'>>;
+
 // Fix: Add ParsedFontData interface to be shared across the application
 export interface ParsedFontData {
   fontData: GeneratedChar[];
   fontOptions: Partial<FontGeneratorOptions>;
-}
\ No newline at end of file
+}
+// A font file uploaded by the user and registered through the FontFace API.
+// The file is kept as base64 so it can be saved inside a project file.
+export interface CustomFont {
+  family: string;
+  fileName: string;
+  data: string;
+}
+
+// Everything needed to restore a session: generator settings, the (hand-edited) glyphs and uploaded fonts.
+export interface ProjectFile {
+  version: 1;
+  options: FontGeneratorOptions;
+  fontData: GeneratedChar[] | null;
+  customFonts: CustomFont[];
+}